@@ -0,0 +1,13 @@
+// This file is auto-generated. Do not edit manually.
+declare const styles: {
+  readonly "accordion": string;
+  readonly "spacingNone": string;
+  readonly "accordionItem": string;
+  readonly "spacingCompact": string;
+  readonly "spacingNormal": string;
+  readonly "alwaysOpen": string;
+  readonly "module": string;
+  readonly "css": string;
+  readonly "map": string;
+};
+export default styles;
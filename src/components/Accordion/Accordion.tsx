@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCardControllerInstance } from '../Card/CardControllerProvider';
+import { AccordionContextType, AccordionProps } from './Accordion.types';
+import { AccordionContext } from './AccordionContext';
+import styles from './Accordion.module.scss';
+
+const sameIds = (a: string[], b: string[]) =>
+	a.length === b.length && a.every((id, index) => id === b[index]);
+
+// Main Accordion Component
+export const Accordion: React.FC<AccordionProps> = ({
+	id,
+	mode = 'multiple',
+	expandedIds,
+	defaultExpandedIds = [],
+	onChange,
+	spacing = 'normal',
+	className = '',
+	style,
+	children,
+}) => {
+	const cardController = useCardControllerInstance();
+	const isControlled = expandedIds !== undefined;
+	const [internalIds, setInternalIds] = useState<string[]>(() =>
+		mode === 'single' ? defaultExpandedIds.slice(0, 1) : defaultExpandedIds
+	);
+	const [syncToken, setSyncToken] = useState(0);
+
+	// Single mode keeps at most one item open, even if more ids are passed in
+	const currentIds = useMemo(() => {
+		const ids = expandedIds ?? internalIds;
+		return mode === 'single' ? ids.slice(0, 1) : ids;
+	}, [expandedIds, internalIds, mode]);
+
+	const currentIdsRef = useRef(currentIds);
+	currentIdsRef.current = currentIds;
+
+	// itemId -> alwaysOpen
+	const itemsRef = useRef(new Map<string, boolean>());
+
+	const registerItem = useCallback((itemId: string, alwaysOpen: boolean) => {
+		itemsRef.current.set(itemId, alwaysOpen);
+		return () => {
+			itemsRef.current.delete(itemId);
+		};
+	}, []);
+
+	const isItemExpanded = useCallback(
+		(itemId: string) => currentIdsRef.current.includes(itemId),
+		[]
+	);
+
+	const commit = useCallback(
+		(next: string[]) => {
+			if (sameIds(next, currentIdsRef.current)) return;
+
+			if (isControlled) {
+				// Re-sync once the parent had a chance to accept or reject the change
+				setTimeout(() => setSyncToken((token) => token + 1), 0);
+			} else {
+				setInternalIds(next);
+			}
+			onChange?.(next);
+		},
+		[isControlled, onChange]
+	);
+
+	const onItemChange = useCallback(
+		(itemId: string, isExpanded: boolean) => {
+			if (itemsRef.current.get(itemId)) return;
+
+			const current = currentIdsRef.current;
+			let next: string[];
+			if (isExpanded) {
+				next =
+					mode === 'single' ? [itemId] : current.includes(itemId) ? current : [...current, itemId];
+			} else {
+				next = current.filter((expandedId) => expandedId !== itemId);
+			}
+			commit(next);
+		},
+		[mode, commit]
+	);
+
+	// Keep the registered cards in line with the expanded set
+	useEffect(() => {
+		itemsRef.current.forEach((alwaysOpen, itemId) => {
+			if (alwaysOpen) return;
+			if (currentIds.includes(itemId)) {
+				cardController.expandCard(itemId, false);
+			} else {
+				cardController.collapseCard(itemId, false);
+			}
+		});
+	}, [cardController, currentIds, syncToken]);
+
+	const accordionClasses = useMemo(
+		() =>
+			[
+				styles.accordion,
+				styles[
+					`spacing${spacing.charAt(0).toUpperCase() + spacing.slice(1)}` as keyof typeof styles
+				],
+				className,
+			]
+				.filter(Boolean)
+				.join(' '),
+		[spacing, className]
+	);
+
+	const contextValue = useMemo(
+		(): AccordionContextType => ({
+			accordionId: id,
+			mode,
+			isItemExpanded,
+			registerItem,
+			onItemChange,
+		}),
+		[id, mode, isItemExpanded, registerItem, onItemChange]
+	);
+
+	return (
+		<AccordionContext.Provider value={contextValue}>
+			<div className={accordionClasses} style={style} data-accordion-id={id}>
+				{children}
+			</div>
+		</AccordionContext.Provider>
+	);
+};
+
+Accordion.displayName = 'Accordion';
@@ -0,0 +1,52 @@
+import { ReactNode, CSSProperties } from 'react';
+import { CardProps } from '../Card/Card.types';
+
+export type AccordionMode = 'single' | 'multiple';
+export type AccordionSpacing = 'none' | 'compact' | 'normal';
+
+export interface AccordionProps {
+	/** Unique identifier for the accordion (propagated to nested fields as accordionId) */
+	id: string;
+
+	/** Whether only one item or several items can be expanded at the same time */
+	mode?: AccordionMode;
+
+	/** Expanded item ids (controlled) */
+	expandedIds?: string[];
+
+	/** Item ids expanded on first render (uncontrolled) */
+	defaultExpandedIds?: string[];
+
+	/** Callback when the set of expanded items changes */
+	onChange?: (expandedIds: string[]) => void;
+
+	/** Gap between items */
+	spacing?: AccordionSpacing;
+
+	/** Custom CSS class */
+	className?: string;
+
+	/** Custom styles */
+	style?: CSSProperties;
+
+	/** AccordionItem children */
+	children: ReactNode;
+}
+
+export interface AccordionItemProps extends Omit<CardProps, 'defaultExpanded' | 'allowExpand'> {
+	/** Keep the item permanently expanded; it is not affected by single-open mode */
+	alwaysOpen?: boolean;
+}
+
+export interface AccordionContextType {
+	accordionId: string;
+	mode: AccordionMode;
+	isItemExpanded: (itemId: string) => boolean;
+	registerItem: (itemId: string, alwaysOpen: boolean) => () => void;
+	onItemChange: (itemId: string, isExpanded: boolean) => void;
+}
+
+export interface AccordionItemContextType {
+	accordionId: string;
+	accordionItemId: string;
+}
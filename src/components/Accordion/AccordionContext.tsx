@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { AccordionContextType, AccordionItemContextType } from './Accordion.types';
+
+const AccordionContext = createContext<AccordionContextType | null>(null);
+const AccordionItemContext = createContext<AccordionItemContextType | null>(null);
+
+export const useAccordionContext = () => {
+	const context = useContext(AccordionContext);
+	if (!context) {
+		throw new Error('AccordionItem must be used within an Accordion component');
+	}
+	return context;
+};
+
+export const useAccordionItemContext = () => {
+	const context = useContext(AccordionItemContext);
+	return context; // Can be null, it's optional
+};
+
+export { AccordionContext, AccordionItemContext };
@@ -0,0 +1,63 @@
+import React, { memo, useCallback, useEffect, useMemo } from 'react';
+import { Card } from '../../Card/Card';
+import { CardEventData } from '../../Card/Card.types';
+import { AccordionItemContextType, AccordionItemProps } from '../Accordion.types';
+import { AccordionItemContext, useAccordionContext } from '../AccordionContext';
+import styles from '../Accordion.module.scss';
+
+const AccordionItem = memo<AccordionItemProps>(
+	({ id, alwaysOpen = false, onExpand, onCollapse, className = '', children, ...cardProps }) => {
+		const { accordionId, isItemExpanded, registerItem, onItemChange } = useAccordionContext();
+
+		useEffect(() => registerItem(id, alwaysOpen), [id, alwaysOpen, registerItem]);
+
+		const handleExpand = useCallback(
+			(data: CardEventData) => {
+				onItemChange(id, true);
+				onExpand?.(data);
+			},
+			[id, onItemChange, onExpand]
+		);
+
+		const handleCollapse = useCallback(
+			(data: CardEventData) => {
+				onItemChange(id, false);
+				onCollapse?.(data);
+			},
+			[id, onItemChange, onCollapse]
+		);
+
+		const itemClasses = useMemo(
+			() =>
+				[styles.accordionItem, alwaysOpen ? styles.alwaysOpen : '', className]
+					.filter(Boolean)
+					.join(' '),
+			[alwaysOpen, className]
+		);
+
+		const itemContext = useMemo(
+			(): AccordionItemContextType => ({ accordionId, accordionItemId: id }),
+			[accordionId, id]
+		);
+
+		return (
+			<AccordionItemContext.Provider value={itemContext}>
+				<Card
+					{...cardProps}
+					id={id}
+					defaultExpanded={alwaysOpen || isItemExpanded(id)}
+					allowExpand={!alwaysOpen}
+					onExpand={handleExpand}
+					onCollapse={handleCollapse}
+					className={itemClasses}
+				>
+					{children}
+				</Card>
+			</AccordionItemContext.Provider>
+		);
+	}
+);
+
+AccordionItem.displayName = 'AccordionItem';
+
+export { AccordionItem };
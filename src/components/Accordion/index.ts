@@ -0,0 +1,20 @@
+export { Accordion } from './Accordion';
+export { AccordionItem } from './components/AccordionItem';
+
+// Context and hooks
+export {
+	AccordionContext,
+	AccordionItemContext,
+	useAccordionContext,
+	useAccordionItemContext,
+} from './AccordionContext';
+
+// Types
+export type {
+	AccordionProps,
+	AccordionItemProps,
+	AccordionMode,
+	AccordionSpacing,
+	AccordionContextType,
+	AccordionItemContextType,
+} from './Accordion.types';
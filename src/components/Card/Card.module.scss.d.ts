@@ -1,5 +1,7 @@
 // This file is auto-generated. Do not edit manually.
 declare const styles: {
+  readonly "contentErrorRetry": string;
+  readonly "loadingCancel": string;
   readonly "card": string;
   readonly "disabled": string;
   readonly "highlight": string;
@@ -22,6 +24,9 @@ declare const styles: {
   readonly "default": string;
   readonly "headerText": string;
   readonly "headerActions": string;
+  readonly "validationIndicator": string;
+  readonly "validationInvalid": string;
+  readonly "validationDirty": string;
   readonly "toolbarButtons": string;
   readonly "positionLeft": string;
   readonly "positionRight": string;
@@ -31,6 +36,13 @@ declare const styles: {
   readonly "danger": string;
   readonly "buttonIcon": string;
   readonly "buttonText": string;
+  readonly "toolbarSeparator": string;
+  readonly "buttonSpinner": string;
+  readonly "moreButton": string;
+  readonly "moreIcon": string;
+  readonly "overflowMenu": string;
+  readonly "overflowMenuItem": string;
+  readonly "overflowMenuSeparator": string;
   readonly "expandButton": string;
   readonly "expandIcon": string;
   readonly "expanded": string;
@@ -41,6 +53,13 @@ declare const styles: {
   readonly "paddingSmall": string;
   readonly "paddingMedium": string;
   readonly "paddingLarge": string;
+  readonly "contentError": string;
+  readonly "contentErrorMessage": string;
+  readonly "tabs": string;
+  readonly "tabList": string;
+  readonly "tab": string;
+  readonly "activeTab": string;
+  readonly "tabPanel": string;
   readonly "footer": string;
   readonly "textLeft": string;
   readonly "textCenter": string;
@@ -49,9 +68,14 @@ declare const styles: {
   readonly "loadingOverlay": string;
   readonly "loadingSpinner": string;
   readonly "loadingText": string;
+  readonly "loadingProgress": string;
+  readonly "loadingProgressBar": string;
+  readonly "loadingStep": string;
+  readonly "visuallyHidden": string;
   readonly "loadingShimmer": string;
   readonly "stackMobile": string;
   readonly "hideTextMobile": string;
+  readonly "printing": string;
   readonly "module": string;
   readonly "css": string;
   readonly "map": string;
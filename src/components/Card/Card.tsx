@@ -1,29 +1,88 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import styles from './Card.module.scss';
-import { CardContextType, CardEventData, CardProps, ToolbarAction } from './Card.types';
+import { CardContextType, CardProps, ToolbarAction } from './Card.types';
 import { CardContext } from './CardContext';
-import { cardController } from './CardController';
-
-// Performance utilities
-const useDebounce = (callback: () => void, delay: number) => {
-	const timeoutRef = useRef<NodeJS.Timeout>();
-
-	return useCallback(() => {
-		if (timeoutRef.current) {
-			clearTimeout(timeoutRef.current);
-		}
-		timeoutRef.current = setTimeout(callback, delay);
-	}, [callback, delay]);
-};
+import { useCardTheme } from './CardTheme';
+import { useCard } from './useCard';
+import { TabPanel, Tabs } from './components/Tabs';
 
 const useMemoizedCallback = <T extends (...args: any[]) => any>(callback: T, deps: any[]): T => {
 	return useCallback(callback, deps);
 };
 
-// Main Card Component
-export const Card: React.FC<CardProps> = ({
+interface LoadingOverlayProps {
+	message: string;
+	label?: string;
+	progress?: number;
+	step?: string;
+	cancelLabel: string;
+	onCancel?: () => void;
+}
+
+// Whole percents clamped to 0-100; undefined (or NaN) is indeterminate
+const toPercent = (progress?: number): number | undefined =>
+	progress === undefined || Number.isNaN(progress)
+		? undefined
+		: Math.round(Math.min(100, Math.max(0, progress)));
+
+const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
+	message,
+	label,
+	progress,
+	step,
+	cancelLabel,
+	onCancel,
+}) => {
+	const percent = toPercent(progress);
+	// Announce steps and every 10% rather than each progress update
+	const announcement = [
+		step,
+		percent !== undefined ? `${Math.floor(percent / 10) * 10}%` : undefined,
+	]
+		.filter(Boolean)
+		.join(', ');
+
+	return (
+		<div className={styles.loadingOverlay}>
+			{percent !== undefined ? (
+				<div
+					className={styles.loadingProgress}
+					role="progressbar"
+					aria-label={label || message}
+					aria-valuemin={0}
+					aria-valuemax={100}
+					aria-valuenow={percent}
+					aria-valuetext={step ? `${percent}%, ${step}` : undefined}
+				>
+					<div className={styles.loadingProgressBar} style={{ width: `${percent}%` }} />
+				</div>
+			) : (
+				<div className={styles.loadingSpinner} role="progressbar" aria-label={label || message} />
+			)}
+			<div className={styles.loadingText}>
+				{message}
+				{percent !== undefined && ` ${percent}%`}
+			</div>
+			{step && <div className={styles.loadingStep}>{step}</div>}
+			{onCancel && (
+				<button type="button" className={styles.loadingCancel} onClick={onCancel}>
+					{cancelLabel}
+				</button>
+			)}
+			<span className={styles.visuallyHidden} role="status" aria-live="polite">
+				{announcement}
+			</span>
+		</div>
+	);
+};
+
+// Main Card Component; the default skin over useCard
+const CardRoot: React.FC<CardProps> = ({
 	id,
-	defaultExpanded = false,
+	groupId,
+	tags,
+	cascadeCollapse,
+	defaultExpanded,
 	allowExpand = true,
 	variant = 'default',
 	headerSize = 'regular',
@@ -31,12 +90,19 @@ export const Card: React.FC<CardProps> = ({
 	loading = false,
 	loadingMessage = 'Loading...',
 	showLoadingOverlay = false,
+	loadingProgress,
+	loadingStep,
+	onCancelLoading,
 	lazyLoad = false,
-	highlightOnProgrammaticChange = true,
-	highlightDuration = 600,
+	persistState,
+	highlightOnProgrammaticChange,
+	highlightDuration,
 	highlightColor,
 	toolbarActions = [],
 	hideExpandButton = false,
+	showValidationIndicator = true,
+	onBeforeExpand,
+	onBeforeCollapse,
 	onExpand,
 	onCollapse,
 	onDataLoaded,
@@ -48,18 +114,52 @@ export const Card: React.FC<CardProps> = ({
 	elevation = 2,
 	disabled = false,
 	theme,
+	themeVariant,
 	accessibility = {},
 	performance = {},
 	children,
 }) => {
-	const [isExpanded, setIsExpanded] = useState(defaultExpanded);
-	const [hasContentLoaded, setHasContentLoaded] = useState(!lazyLoad || defaultExpanded);
-	const [hasDataLoaded, setHasDataLoaded] = useState(false);
-	const [isHighlighted, setIsHighlighted] = useState(false);
-
-	const previousLoadingRef = useRef(loading);
-	const cardRef = useRef<HTMLDivElement>(null);
-	const highlightTimeoutRef = useRef<NodeJS.Timeout>();
+	const {
+		isExpanded,
+		hasContentLoaded,
+		isHighlighted,
+		isNearViewport,
+		isPrinting,
+		validation,
+		toggle,
+		notifyContentLoad,
+		notifyAnimation,
+		getCardProps,
+		getHeaderProps,
+		getToggleButtonProps,
+		getContentProps,
+		activeTab,
+		selectTab,
+		registerTabs,
+	} = useCard({
+		id,
+		groupId,
+		tags,
+		cascadeCollapse,
+		defaultExpanded,
+		allowExpand,
+		disabled,
+		loading,
+		lazyLoad,
+		persistState,
+		highlightOnProgrammaticChange,
+		highlightDuration,
+		onBeforeExpand,
+		onBeforeCollapse,
+		onExpand,
+		onCollapse,
+		onDataLoaded,
+		onContentLoad,
+		onCardEvent,
+		accessibility,
+		performance,
+	});
+	const { virtualizeContent = false } = performance;
 	const renderCountRef = useRef(0);
 
 	// Performance tracking
@@ -70,198 +170,24 @@ export const Card: React.FC<CardProps> = ({
 		}
 	});
 
-	// Debounced toggle function
-	const debouncedToggle = useDebounce(() => {
-		handleToggleExpand('user');
-	}, performance.debounceToggle || 0);
-
-	// Highlight function
-	const highlightCard = useCallback(() => {
-		if (!highlightOnProgrammaticChange) return;
-
-		setIsHighlighted(true);
-
-		if (highlightTimeoutRef.current) {
-			clearTimeout(highlightTimeoutRef.current);
-		}
-
-		highlightTimeoutRef.current = setTimeout(() => {
-			setIsHighlighted(false);
-		}, highlightDuration);
-	}, [highlightOnProgrammaticChange, highlightDuration]);
-
-	// Memoized expand/collapse functions
-	const expandFn = useMemoizedCallback(
-		(source: 'user' | 'programmatic' = 'programmatic') => {
-			if (!isExpanded && allowExpand && !disabled) {
-				setIsExpanded(true);
-				if (lazyLoad && !hasContentLoaded) {
-					setHasContentLoaded(true);
-				}
-				const eventData: CardEventData = {
-					cardId: id,
-					isExpanded: true,
-					timestamp: Date.now(),
-					source,
-				};
-				onExpand?.(eventData);
-				onCardEvent?.('expand', eventData);
-			}
-		},
-		[isExpanded, allowExpand, disabled, lazyLoad, hasContentLoaded, id, onExpand, onCardEvent]
-	);
-
-	const collapseFn = useMemoizedCallback(
-		(source: 'user' | 'programmatic' = 'programmatic') => {
-			if (isExpanded && allowExpand && !disabled) {
-				setIsExpanded(false);
-				const eventData: CardEventData = {
-					cardId: id,
-					isExpanded: false,
-					timestamp: Date.now(),
-					source,
-				};
-				onCollapse?.(eventData);
-				onCardEvent?.('collapse', eventData);
-			}
-		},
-		[isExpanded, allowExpand, disabled, id, onCollapse, onCardEvent]
-	);
-
-	const toggleFn = useMemoizedCallback(
-		(source: 'user' | 'programmatic' = 'programmatic') => {
-			if (isExpanded) {
-				collapseFn(source);
-			} else {
-				expandFn(source);
-			}
-		},
-		[isExpanded, expandFn, collapseFn]
-	);
-
-	// Register card with controller
-	useEffect(() => {
-		cardController.registerCard(
-			id,
-			isExpanded,
-			hasContentLoaded,
-			toggleFn,
-			expandFn,
-			collapseFn,
-			highlightCard
-		);
-
-		return () => {
-			cardController.unregisterCard(id);
-			if (highlightTimeoutRef.current) {
-				clearTimeout(highlightTimeoutRef.current);
-			}
-		};
-	}, [id, isExpanded, hasContentLoaded, toggleFn, expandFn, collapseFn, highlightCard]);
-
-	// Update controller when state changes
-	useEffect(() => {
-		cardController.updateCardState(id, isExpanded, hasContentLoaded);
-	}, [id, isExpanded, hasContentLoaded]);
-
-	// Handle loading state changes
-	useEffect(() => {
-		if (previousLoadingRef.current && !loading && !hasDataLoaded) {
-			setHasDataLoaded(true);
-			const eventData: CardEventData = {
-				cardId: id,
-				isExpanded,
-				timestamp: Date.now(),
-				source: 'user',
-			};
-			onDataLoaded?.(eventData);
-			onCardEvent?.('contentLoad', eventData);
-		}
-		previousLoadingRef.current = loading;
-	}, [loading, hasDataLoaded, onDataLoaded, onCardEvent, id, isExpanded]);
-
-	// Handle content loading for lazy loading
-	useEffect(() => {
-		if (lazyLoad && isExpanded && !hasContentLoaded) {
-			setHasContentLoaded(true);
-			const eventData: CardEventData = {
-				cardId: id,
-				isExpanded,
-				timestamp: Date.now(),
-				source: 'user',
-			};
-			onContentLoad?.(eventData);
-			onCardEvent?.('contentLoad', eventData);
-		}
-	}, [lazyLoad, isExpanded, hasContentLoaded, onContentLoad, onCardEvent, id]);
-
-	// Handle expand/collapse
-	const handleToggleExpand = useMemoizedCallback(
-		(source: 'user' | 'programmatic' = 'user') => {
-			if (!allowExpand || disabled) return;
-
-			const newExpanded = !isExpanded;
-			setIsExpanded(newExpanded);
-
-			// Load content if lazy loading and expanding
-			if (lazyLoad && newExpanded && !hasContentLoaded) {
-				setHasContentLoaded(true);
-			}
-
-			const eventData: CardEventData = {
-				cardId: id,
-				isExpanded: newExpanded,
-				timestamp: Date.now(),
-				source,
-			};
-
-			if (newExpanded) {
-				onExpand?.(eventData);
-				onCardEvent?.('expand', eventData);
-			} else {
-				onCollapse?.(eventData);
-				onCardEvent?.('collapse', eventData);
-			}
-		},
-		[
-			allowExpand,
-			disabled,
-			isExpanded,
-			lazyLoad,
-			hasContentLoaded,
-			id,
-			onExpand,
-			onCollapse,
-			onCardEvent,
-		]
-	);
-
 	// Handle toolbar action click
 	const handleToolbarAction = useMemoizedCallback(
 		(action: ToolbarAction, event: React.MouseEvent) => {
 			event.stopPropagation();
 			if (!action.disabled && !disabled) {
-				action.onClick(id);
+				return action.onClick(id);
 			}
 		},
 		[disabled, id]
 	);
 
-	// Handle content load callback
-	const handleContentLoad = useMemoizedCallback(() => {
-		const eventData: CardEventData = {
-			cardId: id,
-			isExpanded,
-			timestamp: Date.now(),
-			source: 'user',
-		};
-		onContentLoad?.(eventData);
-		onCardEvent?.('contentLoad', eventData);
-	}, [id, isExpanded, onContentLoad, onCardEvent]);
-
 	// Memoized styles and classes
+	const themeVariables = useCardTheme(themeVariant);
+
 	const cardStyle = useMemo(
 		() => ({
+			...themeVariables,
+			...(theme?.primaryColor && { '--card-theme-primary': theme.primaryColor }),
 			...style,
 			...(theme?.backgroundColor && { backgroundColor: theme.backgroundColor }),
 			...(theme?.borderColor && { borderColor: theme.borderColor }),
@@ -272,7 +198,7 @@ export const Card: React.FC<CardProps> = ({
 					boxShadow: `0 0 0 2px ${highlightColor}33`,
 				}),
 		}),
-		[style, theme, highlightColor, isHighlighted]
+		[themeVariables, style, theme, highlightColor, isHighlighted]
 	);
 
 	const cardClasses = useMemo(
@@ -283,11 +209,12 @@ export const Card: React.FC<CardProps> = ({
 				disabled ? styles.disabled : '',
 				isHighlighted ? styles.highlight : '',
 				disableAnimation ? styles.noAnimation : '',
+				isPrinting ? styles.printing : '',
 				className,
 			]
 				.filter(Boolean)
 				.join(' '),
-		[elevation, disabled, isHighlighted, disableAnimation, className]
+		[elevation, disabled, isHighlighted, disableAnimation, isPrinting, className]
 	);
 
 	// Memoized context value
@@ -306,12 +233,22 @@ export const Card: React.FC<CardProps> = ({
 			toolbarActions,
 			hideExpandButton,
 			accessibility,
-			disableAnimation,
-			onToggleExpand: performance.debounceToggle
-				? debouncedToggle
-				: () => handleToggleExpand('user'),
+			// Content is sized instantly so the print snapshot never catches a transition
+			disableAnimation: disableAnimation || isPrinting,
+			virtualizeContent,
+			isNearViewport,
+			validation,
+			showValidationIndicator,
+			onToggleExpand: toggle,
 			onToolbarAction: handleToolbarAction,
-			onContentLoad: handleContentLoad,
+			onContentLoad: notifyContentLoad,
+			onAnimationEvent: notifyAnimation,
+			getHeaderProps,
+			getToggleButtonProps,
+			getContentProps,
+			activeTab,
+			selectTab,
+			registerTabs,
 		}),
 		[
 			id,
@@ -328,26 +265,36 @@ export const Card: React.FC<CardProps> = ({
 			hideExpandButton,
 			accessibility,
 			disableAnimation,
-			performance.debounceToggle,
-			debouncedToggle,
-			handleToggleExpand,
+			isPrinting,
+			virtualizeContent,
+			isNearViewport,
+			validation,
+			showValidationIndicator,
+			toggle,
 			handleToolbarAction,
-			handleContentLoad,
+			notifyContentLoad,
+			notifyAnimation,
+			getHeaderProps,
+			getToggleButtonProps,
+			getContentProps,
+			activeTab,
+			selectTab,
+			registerTabs,
 		]
 	);
 
 	const cardProps = useMemo(
-		() => ({
-			className: cardClasses,
-			style: cardStyle,
-			ref: cardRef,
-			...(accessibility.region && {
-				role: 'region',
-				'aria-labelledby': accessibility.labelledBy,
-				'aria-describedby': accessibility.describedBy,
+		() =>
+			getCardProps({
+				className: cardClasses,
+				style: cardStyle,
+				...(accessibility.region && {
+					role: 'region',
+					'aria-labelledby': accessibility.labelledBy,
+					'aria-describedby': accessibility.describedBy,
+				}),
 			}),
-		}),
-		[cardClasses, cardStyle, accessibility]
+		[getCardProps, cardClasses, cardStyle, accessibility]
 	);
 
 	return (
@@ -355,13 +302,14 @@ export const Card: React.FC<CardProps> = ({
 			<div {...cardProps}>
 				{/* Loading Overlay */}
 				{loading && showLoadingOverlay && (
-					<div className={styles.loadingOverlay}>
-						<div
-							className={styles.loadingSpinner}
-							aria-label={accessibility.loadingLabel || loadingMessage}
-						/>
-						<div className={styles.loadingText}>{loadingMessage}</div>
-					</div>
+					<LoadingOverlay
+						message={loadingMessage}
+						label={accessibility.loadingLabel}
+						progress={loadingProgress}
+						step={loadingStep}
+						cancelLabel={accessibility.cancelLoadingLabel || 'Cancel'}
+						onCancel={onCancelLoading}
+					/>
 				)}
 
 				{children}
@@ -370,4 +318,7 @@ export const Card: React.FC<CardProps> = ({
 	);
 };
 
-Card.displayName = 'Card';
+CardRoot.displayName = 'Card';
+
+// Compound parts: <Card.Tabs> with <Card.TabPanel> children, rendered inside Content
+export const Card = Object.assign(CardRoot, { Tabs, TabPanel });
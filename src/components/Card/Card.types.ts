@@ -1,19 +1,27 @@
 import { ReactNode, CSSProperties } from 'react';
+import type { IReadonlyTheme } from '@microsoft/sp-component-base';
 
 export type CardVariant = 'success' | 'error' | 'warning' | 'info' | 'default';
 export type HeaderSize = 'compact' | 'regular' | 'large';
+export type CardPersistMode = 'localStorage' | 'sessionStorage' | 'urlHash';
 
 export interface ToolbarAction {
 	id: string;
 	label: string;
 	icon?: ReactNode;
-	onClick: (cardId?: string) => void;
+	/** Returning a promise shows a spinner and disables the button until it settles */
+	onClick: (cardId?: string) => void | Promise<unknown>;
 	disabled?: boolean;
 	variant?: 'default' | 'primary' | 'secondary' | 'danger';
 	tooltip?: string;
+	/** On mobile the action moves to the overflow menu */
 	hideOnMobile?: boolean;
 	mobileIcon?: ReactNode;
 	ariaLabel?: string;
+	/** Adjacent actions with different groups are divided by a separator */
+	group?: string;
+	/** Ask before running the action; pass a string to customize the message */
+	confirm?: boolean | string;
 }
 
 export interface CardEventData {
@@ -23,7 +31,67 @@ export interface CardEventData {
 	source: 'user' | 'programmatic';
 }
 
-export type CardEventType = 'expand' | 'collapse' | 'contentLoad' | 'programmaticToggle';
+// Receives the requested state in `isExpanded`
+export type CardTransitionGuard = (data: CardEventData) => boolean | Promise<boolean>;
+
+export type CardEventType =
+	| 'expand'
+	| 'collapse'
+	| 'contentLoad'
+	| 'programmaticToggle'
+	| 'animationStart'
+	| 'animationEnd';
+
+export interface CardBatchOperation {
+	cardId: string;
+	action: 'expand' | 'collapse' | 'toggle';
+}
+
+// Events published by CardController (see cardController.on / useCardEvents)
+export type CardControllerEvent =
+	| { type: 'register'; cardId: string; isExpanded: boolean; hasContentLoaded: boolean }
+	| { type: 'unregister'; cardId: string }
+	| { type: 'stateUpdate'; cardId: string; isExpanded: boolean; hasContentLoaded: boolean }
+	| { type: 'expand'; cardId: string; source: 'user' | 'programmatic'; highlight: boolean }
+	| { type: 'collapse'; cardId: string; source: 'user' | 'programmatic'; highlight: boolean }
+	| {
+			type: 'toggle';
+			cardId: string;
+			source: 'programmatic';
+			highlight: boolean;
+			newState: boolean;
+	}
+	| { type: 'highlight'; cardId: string }
+	| { type: 'animationStart'; cardId: string; isExpanded: boolean }
+	| { type: 'animationEnd'; cardId: string; isExpanded: boolean }
+	| { type: 'validationChange'; cardId: string; validation: CardValidationState }
+	| { type: 'refresh'; cardId: string }
+	| { type: 'tabChange'; cardId: string; tabId: string; previousTabId?: string }
+	| { type: 'expandAll'; highlight: boolean }
+	| { type: 'collapseAll'; highlight: boolean }
+	| { type: 'expandGroup'; groupId: string; highlight: boolean }
+	| { type: 'collapseGroup'; groupId: string; highlight: boolean }
+	| {
+			type: 'batchOperation';
+			operations: CardBatchOperation[];
+			highlight: boolean;
+			groupId?: string;
+	}
+	| { type: 'restore'; cardIds: string[]; highlight: boolean }
+	| { type: 'printStart' }
+	| { type: 'printEnd' }
+	| { type: 'clearAll' };
+
+export type CardControllerEventType = CardControllerEvent['type'];
+
+export type CardControllerEventOf<K extends CardControllerEventType> = Extract<
+	CardControllerEvent,
+	{ type: K }
+>;
+
+export type CardControllerEventHandler<K extends CardControllerEventType> = (
+	event: CardControllerEventOf<K>
+) => void;
 
 export interface CardContextType {
 	id: string;
@@ -42,17 +110,28 @@ export interface CardContextType {
 		expandButtonLabel?: string;
 		collapseButtonLabel?: string;
 		loadingLabel?: string;
+		cancelLoadingLabel?: string;
 		region?: boolean;
 		labelledBy?: string;
 		describedBy?: string;
 	};
 	disableAnimation: boolean;
+	virtualizeContent: boolean;
+	isNearViewport: boolean;
+	validation: CardValidationState;
+	showValidationIndicator: boolean;
 	onToggleExpand: (source?: 'user' | 'programmatic') => void;
-	onToolbarAction: (action: ToolbarAction, event: React.MouseEvent) => void;
+	onToolbarAction: (action: ToolbarAction, event: React.MouseEvent) => void | Promise<unknown>;
 	onContentLoad: () => void;
+	onAnimationEvent: (type: 'animationStart' | 'animationEnd') => void;
+	getHeaderProps: UseCardResult['getHeaderProps'];
+	getToggleButtonProps: UseCardResult['getToggleButtonProps'];
+	getContentProps: UseCardResult['getContentProps'];
+	activeTab?: string;
+	selectTab: UseCardResult['selectTab'];
+	registerTabs: UseCardResult['registerTabs'];
 }
 
-
 export interface CardProps {
 	/** Unique identifier for the card */
 	id: string;
@@ -63,6 +142,15 @@ export interface CardProps {
 	/** Whether the card can be collapsed/expanded */
 	allowExpand?: boolean;
 
+	/** Group for group-scoped controller operations (expandGroup, collapseGroup...) */
+	groupId?: string;
+
+	/** Additional groups this card belongs to; group operations match groupId or any tag */
+	tags?: string[];
+
+	/** Collapse expanded nested cards when this card collapses */
+	cascadeCollapse?: boolean;
+
 	/** Card header background variant */
 	variant?: CardVariant;
 
@@ -81,9 +169,21 @@ export interface CardProps {
 	/** Whether to show loading overlay */
 	showLoadingOverlay?: boolean;
 
+	/** Progress of the loading operation (0-100); omit for an indeterminate spinner */
+	loadingProgress?: number;
+
+	/** Current step of the loading operation, shown below the message */
+	loadingStep?: string;
+
+	/** Renders a Cancel button in the loading overlay */
+	onCancelLoading?: () => void;
+
 	/** Enable lazy loading - content loads only when expanded */
 	lazyLoad?: boolean;
 
+	/** Persist expanded state across page loads (true = localStorage) */
+	persistState?: boolean | CardPersistMode;
+
 	/** Highlight border on programmatic changes */
 	highlightOnProgrammaticChange?: boolean;
 
@@ -99,6 +199,15 @@ export interface CardProps {
 	/** Hide the expand/collapse button */
 	hideExpandButton?: boolean;
 
+	/** Show error count / unsaved changes of contained Fields in the header (default true) */
+	showValidationIndicator?: boolean;
+
+	/** Called before the card expands; return (or resolve) false to keep it collapsed */
+	onBeforeExpand?: CardTransitionGuard;
+
+	/** Called before the card collapses; return (or resolve) false to keep it expanded */
+	onBeforeCollapse?: CardTransitionGuard;
+
 	/** Callback when card is expanded */
 	onExpand?: (data: CardEventData) => void;
 
@@ -120,7 +229,7 @@ export interface CardProps {
 	/** Custom styles */
 	style?: CSSProperties;
 
-	/** Disable animations */
+	/** Disable animations (they are also skipped when the user prefers reduced motion) */
 	disableAnimation?: boolean;
 
 	/** Card elevation/shadow level */
@@ -129,6 +238,12 @@ export interface CardProps {
 	/** Whether card is disabled */
 	disabled?: boolean;
 
+	/**
+	 * Fluent/SharePoint theme for the variant colors, e.g. the web part's section theme variant
+	 * as reported by connectThemeProvider. Defaults to the page theme published on themeBus.
+	 */
+	themeVariant?: IReadonlyTheme;
+
 	/** Custom theme overrides */
 	theme?: {
 		primaryColor?: string;
@@ -142,6 +257,7 @@ export interface CardProps {
 		expandButtonLabel?: string;
 		collapseButtonLabel?: string;
 		loadingLabel?: string;
+		cancelLoadingLabel?: string;
 		region?: boolean;
 		labelledBy?: string;
 		describedBy?: string;
@@ -150,7 +266,9 @@ export interface CardProps {
 	/** Performance options */
 	performance?: {
 		debounceToggle?: number;
+		/** Unmount content while the card is offscreen, keeping its last measured height */
 		virtualizeContent?: boolean;
+		/** Distance in pixels from the viewport at which lazy content starts loading */
 		preloadThreshold?: number;
 		memoizeContent?: boolean;
 	};
@@ -175,15 +293,50 @@ export interface ToolbarButtonsProps {
 	position?: 'left' | 'right';
 	showTooltips?: boolean;
 	stackOnMobile?: boolean;
+	/** Move actions that do not fit into a "more" menu (default true) */
+	overflow?: boolean;
+	/** Label of the overflow menu button */
+	overflowLabel?: string;
 }
 
-export interface ContentProps {
+export interface CardTabsProps {
+	/** Tab shown until one is selected (default: the first enabled tab) */
+	defaultTab?: string;
+	/** Accessible label of the tab list */
+	label?: string;
+	/** Callback when the active tab changes */
+	onTabChange?: (tabId: string) => void;
+	className?: string;
+	style?: CSSProperties;
+	/** Card.TabPanel elements */
+	children: ReactNode;
+}
+
+export interface CardTabPanelProps {
+	/** Tab id; used by cardController.selectTab, state persistence and #tab= deep links */
+	id: string;
+	/** Tab label */
+	label: ReactNode;
+	disabled?: boolean;
+	className?: string;
+	style?: CSSProperties;
+	/** Panel content; mounted on first activation and kept mounted afterwards */
 	children: ReactNode | (() => ReactNode);
+}
+
+export interface ContentProps<T = unknown> {
+	/** Content, a render function, or a render function for the data returned by `load` */
+	children: ReactNode | (() => ReactNode) | ((data: T) => ReactNode);
+	/** Async loader; runs when the content is first shown and its result is cached per card id */
+	load?: () => Promise<T>;
 	className?: string;
 	style?: CSSProperties;
 	padding?: 'none' | 'small' | 'medium' | 'large';
 	loadingPlaceholder?: ReactNode;
+	/** Catch render errors inside the card body (default true) */
 	errorBoundary?: boolean;
+	/** Custom fallback for caught errors; call retry to remount the content */
+	renderError?: (error: Error, retry: () => void) => ReactNode;
 }
 
 export interface FooterProps {
@@ -196,8 +349,140 @@ export interface FooterProps {
 	textAlign?: 'left' | 'center' | 'right';
 }
 
+// Aggregated status of the Fields rendered inside a card
+export interface CardValidationState {
+	isValid: boolean;
+	isDirty: boolean;
+	errorCount: number;
+	invalidFieldCount: number;
+	dirtyFieldCount: number;
+}
+
+export interface CardRegistrationOptions {
+	validation?: CardValidationState;
+	/** Root element; used for DOM-ordered keyboard navigation */
+	element?: HTMLElement;
+	/** Disabled cards are skipped by keyboard navigation */
+	disabled?: boolean;
+	/** Moves focus to the card header; returns false if nothing could be focused */
+	focusFn?: () => boolean;
+	groupId?: string;
+	tags?: string[];
+	/** Enclosing card, for nested cards */
+	parentId?: string;
+	/** Active tab of the card's Card.Tabs */
+	activeTab?: string;
+	/** Activates a tab; returns false when the tab is unknown, disabled or already active */
+	selectTabFn?: (tabId: string) => boolean;
+}
+
+export interface CardBatchOptions {
+	/** Only apply operations to cards in this group (groupId or tag) */
+	groupId?: string;
+}
+
+export interface CardSyncOptions {
+	/** Only synchronize cards in this group (groupId or tag); also scopes the channel */
+	groupId?: string;
+	/** BroadcastChannel name prefix; the page path and group are appended */
+	channelName?: string;
+}
+
+export type CardFocusDirection = 'next' | 'previous' | 'first' | 'last';
+
+export interface CardScrollOptions {
+	/** Expand the card after scrolling to it (default true); enclosing cards are always expanded */
+	expand?: boolean;
+	/** Highlight the card once it is in view (default true) */
+	highlight?: boolean;
+	behavior?: ScrollBehavior;
+	block?: ScrollLogicalPosition;
+}
+
 export interface CardState {
 	id: string;
 	isExpanded: boolean;
 	hasContentLoaded: boolean;
+	validation: CardValidationState;
+	parentId?: string;
+	activeTab?: string;
+}
+
+export interface CardSnapshot {
+	version: 1;
+	timestamp: number;
+	cards: { [cardId: string]: { isExpanded: boolean; activeTab?: string } };
+}
+
+// Behaviour shared by Card and the headless useCard hook
+export type UseCardOptions = Pick<
+	CardProps,
+	| 'id'
+	| 'groupId'
+	| 'tags'
+	| 'defaultExpanded'
+	| 'allowExpand'
+	| 'disabled'
+	| 'loading'
+	| 'lazyLoad'
+	| 'persistState'
+	| 'highlightOnProgrammaticChange'
+	| 'highlightDuration'
+	| 'cascadeCollapse'
+	| 'onBeforeExpand'
+	| 'onBeforeCollapse'
+	| 'onExpand'
+	| 'onCollapse'
+	| 'onDataLoaded'
+	| 'onContentLoad'
+	| 'onCardEvent'
+	| 'accessibility'
+	| 'performance'
+>;
+
+export interface CardHeaderPropsOptions extends React.HTMLAttributes<HTMLElement> {
+	/** Whether clicking the header toggles the card (default true) */
+	clickable?: boolean;
+}
+
+export interface UseCardResult {
+	id: string;
+	/** Also true while the page is being printed (see cardController.preparePrint) */
+	isExpanded: boolean;
+	hasContentLoaded: boolean;
+	isHighlighted: boolean;
+	isNearViewport: boolean;
+	isPrinting: boolean;
+	validation: CardValidationState;
+	/** Root element; registered with the controller for scrolling and navigation */
+	cardRef: React.RefObject<HTMLDivElement>;
+	/** User-initiated transitions; resolve to false when not applied or vetoed by a guard */
+	expand: () => boolean | Promise<boolean>;
+	collapse: () => boolean | Promise<boolean>;
+	/** Honors performance.debounceToggle */
+	toggle: () => void;
+	highlight: () => void;
+	/** Report that lazy content has rendered, for onContentLoad / contentLoad events */
+	notifyContentLoad: () => void;
+	/** Report the content transition lifecycle to onCardEvent and the controller */
+	notifyAnimation: (type: 'animationStart' | 'animationEnd') => void;
+	getCardProps: (
+		props?: React.HTMLAttributes<HTMLDivElement>
+	) => React.HTMLAttributes<HTMLDivElement> & {
+		ref: React.RefObject<HTMLDivElement>;
+		'data-card-id': string;
+	};
+	getHeaderProps: (
+		props?: CardHeaderPropsOptions
+	) => React.HTMLAttributes<HTMLElement> & { 'data-card-header': string };
+	getToggleButtonProps: (
+		props?: React.ButtonHTMLAttributes<HTMLButtonElement>
+	) => React.ButtonHTMLAttributes<HTMLButtonElement> & { 'data-card-toggle': string };
+	getContentProps: (props?: React.HTMLAttributes<HTMLElement>) => React.HTMLAttributes<HTMLElement>;
+	/** Active tab of the card's Card.Tabs; restored from persisted state */
+	activeTab?: string;
+	/** Activates a tab through the controller, like cardController.selectTab(id, tabId) */
+	selectTab: (tabId: string) => boolean;
+	/** Called by Card.Tabs with its enabled tab ids and shown tab; returns an unregister function */
+	registerTabs: (tabIds: string[], currentTabId?: string) => () => void;
 }
@@ -1,27 +1,199 @@
 import React from 'react';
-import { CardState } from './Card.types';
+import {
+	CardBatchOperation,
+	CardBatchOptions,
+	CardControllerEvent,
+	CardControllerEventHandler,
+	CardControllerEventType,
+	CardFocusDirection,
+	CardRegistrationOptions,
+	CardScrollOptions,
+	CardSnapshot,
+	CardState,
+	CardSyncOptions,
+	CardValidationState,
+} from './Card.types';
+import { connectCardSync } from './CardSync';
 
 interface CardControllerSubscription {
 	cardId: string;
 	callback: (action: string, data?: any) => void;
 }
 
+// false when a guard vetoed the change, a promise while an async guard is pending;
+// void (older registrations) counts as applied
+type CardTransitionResult = boolean | void | Promise<boolean>;
+type CardTransitionFn = (source?: 'user' | 'programmatic') => CardTransitionResult;
+
 interface CardRegistration {
 	isExpanded: boolean;
 	hasContentLoaded: boolean;
-	toggleFn: (source?: 'user' | 'programmatic') => void;
-	expandFn: (source?: 'user' | 'programmatic') => void;
-	collapseFn: (source?: 'user' | 'programmatic') => void;
+	toggleFn: CardTransitionFn;
+	expandFn: CardTransitionFn;
+	collapseFn: CardTransitionFn;
 	highlightFn?: () => void;
+	validation: CardValidationState;
+	element?: HTMLElement;
+	disabled: boolean;
+	focusFn?: () => boolean;
+	groupId?: string;
+	tags: string[];
+	parentId?: string;
+	activeTab?: string;
+	selectTabFn?: (tabId: string) => boolean;
+}
+
+const VALID_CARD: CardValidationState = {
+	isValid: true,
+	isDirty: false,
+	errorCount: 0,
+	invalidFieldCount: 0,
+	dirtyFieldCount: 0,
+};
+
+// Card-level events that are also delivered to the deprecated per-card subscribers
+const CARD_ACTIONS: CardControllerEventType[] = ['expand', 'collapse', 'toggle', 'highlight'];
+
+// Maps a typed event onto the (action, cardId, data) shape of the deprecated string API
+function toLegacyNotification(event: CardControllerEvent): { cardId: string; data?: any } {
+	switch (event.type) {
+		case 'register':
+		case 'stateUpdate':
+			return {
+				cardId: event.cardId,
+				data: { isExpanded: event.isExpanded, hasContentLoaded: event.hasContentLoaded },
+			};
+		case 'expand':
+		case 'collapse':
+			return { cardId: event.cardId, data: { highlight: event.highlight } };
+		case 'toggle':
+			return {
+				cardId: event.cardId,
+				data: { highlight: event.highlight, newState: event.newState },
+			};
+		case 'tabChange':
+			return {
+				cardId: event.cardId,
+				data: { tabId: event.tabId, previousTabId: event.previousTabId },
+			};
+		case 'unregister':
+		case 'highlight':
+		case 'refresh':
+			return { cardId: event.cardId };
+		case 'animationStart':
+		case 'animationEnd':
+			return { cardId: event.cardId, data: { isExpanded: event.isExpanded } };
+		case 'validationChange':
+			return { cardId: event.cardId, data: event.validation };
+		case 'expandAll':
+		case 'collapseAll':
+			return { cardId: 'all', data: { highlight: event.highlight } };
+		case 'expandGroup':
+		case 'collapseGroup':
+			return { cardId: 'multiple', data: { groupId: event.groupId, highlight: event.highlight } };
+		case 'batchOperation':
+			return {
+				cardId: 'multiple',
+				data: { operations: event.operations, highlight: event.highlight, groupId: event.groupId },
+			};
+		case 'restore':
+			return { cardId: 'multiple', data: { cardIds: event.cardIds, highlight: event.highlight } };
+		case 'printStart':
+		case 'printEnd':
+		case 'clearAll':
+			return { cardId: 'all' };
+	}
+}
+
+function toLegacyCardData(event: CardControllerEvent): any {
+	switch (event.type) {
+		case 'expand':
+		case 'collapse':
+			return { source: event.source };
+		case 'toggle':
+			return { source: event.source, newState: event.newState };
+		default:
+			return undefined;
+	}
+}
+
+// Runs transitions in order, stopping at the first one that is not applied
+function runInSequence(steps: (() => boolean | Promise<boolean>)[]): boolean | Promise<boolean> {
+	for (let index = 0; index < steps.length; index++) {
+		const result = steps[index]();
+		if (result === false) return false;
+		if (result instanceof Promise) {
+			const rest = steps.slice(index + 1);
+			return result.then((applied) => applied && runInSequence(rest));
+		}
+	}
+	return true;
+}
+
+// Runs `onApplied` once the card has accepted the transition
+function settleTransition(
+	result: CardTransitionResult,
+	onApplied: () => void
+): boolean | Promise<boolean> {
+	if (result instanceof Promise) {
+		return result.then(
+			(applied) => {
+				if (applied) onApplied();
+				return applied;
+			},
+			() => false
+		);
+	}
+	if (result === false) return false;
+	onApplied();
+	return true;
+}
+
+function isInGroup(card: CardRegistration, groupId: string): boolean {
+	return card.groupId === groupId || card.tags.includes(groupId);
+}
+
+// Nearest enclosing card or accordion; cards with the same container are navigated together
+function getNavigationContainer(element: HTMLElement): Element | null {
+	return element.parentElement?.closest('[data-card-id], [data-accordion-id]') ?? null;
+}
+
+// Follows the browser's print dialog (including Ctrl+P) in and out of print mode
+function listenForPrint(controller: CardController): () => void {
+	if (typeof window === 'undefined') return () => undefined;
+
+	// beforeprint cannot wait; lazy content that is still loading prints as placeholders
+	const handleBeforePrint = () => {
+		controller.preparePrint();
+	};
+	const handleAfterPrint = () => controller.endPrint();
+	window.addEventListener('beforeprint', handleBeforePrint);
+	window.addEventListener('afterprint', handleAfterPrint);
+	return () => {
+		window.removeEventListener('beforeprint', handleBeforePrint);
+		window.removeEventListener('afterprint', handleAfterPrint);
+	};
 }
 
-class CardController {
+// Gives React a turn to render and run the effects that start content loaders
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+const MAX_PRINT_SETTLE_ROUNDS = 20;
+
+// Use getInstance() for the page-wide controller; new instances back a CardControllerProvider
+export class CardController {
 	private static instance: CardController;
 	private cards = new Map<string, CardRegistration>();
 	private subscriptions = new Map<string, CardControllerSubscription[]>();
 	private globalSubscriptions: ((action: string, cardId: string, data?: any) => void)[] = [];
-
-	private constructor() {}
+	private listeners = new Map<CardControllerEventType | '*', Set<(event: any) => void>>();
+	private version = 0;
+	private loaders = new Map<string, () => Promise<boolean>>();
+	private pendingLoads = new Set<Promise<boolean>>();
+	private contentCache = new Map<string, unknown>();
+	private animating = new Set<string>();
+	private disconnectSync?: () => void;
+	private printing = false;
+	private stopListeningForPrint?: () => void;
 
 	static getInstance(): CardController {
 		if (!CardController.instance) {
@@ -35,10 +207,11 @@ class CardController {
 		id: string,
 		isExpanded: boolean,
 		hasContentLoaded: boolean,
-		toggleFn: (source?: 'user' | 'programmatic') => void,
-		expandFn: (source?: 'user' | 'programmatic') => void,
-		collapseFn: (source?: 'user' | 'programmatic') => void,
-		highlightFn?: () => void
+		toggleFn: CardTransitionFn,
+		expandFn: CardTransitionFn,
+		collapseFn: CardTransitionFn,
+		highlightFn?: () => void,
+		options: CardRegistrationOptions = {}
 	): void {
 		this.cards.set(id, {
 			isExpanded,
@@ -47,15 +220,32 @@ class CardController {
 			expandFn,
 			collapseFn,
 			highlightFn,
+			validation: options.validation ?? VALID_CARD,
+			element: options.element,
+			disabled: options.disabled ?? false,
+			focusFn: options.focusFn,
+			groupId: options.groupId,
+			tags: options.tags ?? [],
+			parentId: options.parentId,
+			activeTab: options.activeTab,
+			selectTabFn: options.selectTabFn,
 		});
+		if (!this.stopListeningForPrint) {
+			this.stopListeningForPrint = listenForPrint(this);
+		}
 
-		this.notifyGlobalSubscribers('register', id, { isExpanded, hasContentLoaded });
+		this.emit({ type: 'register', cardId: id, isExpanded, hasContentLoaded });
 	}
 
 	unregisterCard(id: string): void {
+		// animating survives re-registration mid-transition; Content ends it when it unmounts
 		this.cards.delete(id);
 		this.subscriptions.delete(id);
-		this.notifyGlobalSubscribers('unregister', id);
+		if (this.cards.size === 0) {
+			this.stopListeningForPrint?.();
+			this.stopListeningForPrint = undefined;
+		}
+		this.emit({ type: 'unregister', cardId: id });
 	}
 
 	updateCardState(id: string, isExpanded: boolean, hasContentLoaded: boolean): void {
@@ -63,11 +253,107 @@ class CardController {
 		if (card) {
 			card.isExpanded = isExpanded;
 			card.hasContentLoaded = hasContentLoaded;
-			this.notifyGlobalSubscribers('stateUpdate', id, { isExpanded, hasContentLoaded });
+			this.emit({ type: 'stateUpdate', cardId: id, isExpanded, hasContentLoaded });
+		}
+	}
+
+	updateCardValidation(id: string, validation: CardValidationState): void {
+		const card = this.cards.get(id);
+		if (card) {
+			card.validation = validation;
+			this.emit({ type: 'validationChange', cardId: id, validation });
+		}
+	}
+
+	// Expand/collapse transitions reported by Content
+	notifyAnimation(id: string, type: 'animationStart' | 'animationEnd', isExpanded: boolean): void {
+		if (type === 'animationStart') {
+			this.animating.add(id);
+		} else {
+			this.animating.delete(id);
+		}
+		this.emit({ type, cardId: id, isExpanded });
+	}
+
+	// Header clicks and keys are applied by the card itself and reported here
+	notifyUserTransition(id: string, isExpanded: boolean): void {
+		const card = this.cards.get(id);
+		if (!card) return;
+
+		card.isExpanded = isExpanded;
+		this.emit({
+			type: isExpanded ? 'expand' : 'collapse',
+			cardId: id,
+			source: 'user',
+			highlight: false,
+		});
+	}
+
+	isCardAnimating(id: string): boolean {
+		return this.animating.has(id);
+	}
+
+	/** Resolves when the card's current expand/collapse transition ends (or after the timeout) */
+	waitForAnimation(id: string, timeout: number = 1000): Promise<void> {
+		if (!this.animating.has(id)) return Promise.resolve();
+
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				unsubscribe();
+				resolve();
+			}, timeout);
+			const unsubscribe = this.on('animationEnd', (event) => {
+				if (event.cardId === id) {
+					clearTimeout(timer);
+					unsubscribe();
+					resolve();
+				}
+			});
+		});
+	}
+
+	/** Increments on every published event; lets hooks cache registry snapshots */
+	getVersion(): number {
+		return this.version;
+	}
+
+	// Typed event subscriptions
+	on<K extends CardControllerEventType>(
+		type: K,
+		handler: CardControllerEventHandler<K>
+	): () => void;
+	on(type: '*', handler: (event: CardControllerEvent) => void): () => void;
+	on(type: CardControllerEventType | '*', handler: (event: any) => void): () => void {
+		if (!this.listeners.has(type)) {
+			this.listeners.set(type, new Set());
+		}
+		this.listeners.get(type)!.add(handler);
+
+		// Return unsubscribe function
+		return () => {
+			this.listeners.get(type)?.delete(handler);
+		};
+	}
+
+	private emit(event: CardControllerEvent, notifyGlobal: boolean = true): void {
+		this.version++;
+		[this.listeners.get(event.type), this.listeners.get('*')].forEach((handlers) => {
+			if (handlers) {
+				Array.from(handlers).forEach((handler) => handler(event));
+			}
+		});
+
+		// Deprecated string API
+		if ('cardId' in event && CARD_ACTIONS.includes(event.type)) {
+			this.notifySubscribers(event.cardId, event.type, toLegacyCardData(event));
+		}
+		if (notifyGlobal) {
+			const { cardId, data } = toLegacyNotification(event);
+			this.notifyGlobalSubscribers(event.type, cardId, data);
 		}
 	}
 
-	// Subscription methods for class components
+	/** @deprecated Use on(eventType, handler) for typed event payloads */
 	subscribe(cardId: string, callback: (action: string, data?: any) => void): () => void {
 		if (!this.subscriptions.has(cardId)) {
 			this.subscriptions.set(cardId, []);
@@ -88,6 +374,7 @@ class CardController {
 		};
 	}
 
+	/** @deprecated Use on('*', handler) for typed event payloads */
 	subscribeGlobal(callback: (action: string, cardId: string, data?: any) => void): () => void {
 		this.globalSubscriptions.push(callback);
 
@@ -115,87 +402,351 @@ class CardController {
 
 	// Public API methods with highlighting support
 	expandAll(highlight: boolean = true): void {
+		this.cards.forEach((_, id) => {
+			this.requestExpand(id, highlight, false);
+		});
+		this.emit({ type: 'expandAll', highlight });
+	}
+
+	collapseAll(highlight: boolean = true): void {
+		this.cards.forEach((_, id) => {
+			this.requestCollapse(id, highlight, false);
+		});
+		this.emit({ type: 'collapseAll', highlight });
+	}
+
+	// Group-scoped operations; a card is in a group if its groupId or one of its tags matches
+	expandGroup(groupId: string, highlight: boolean = true): void {
 		this.cards.forEach((card, id) => {
-			if (!card.isExpanded) {
-				card.expandFn('programmatic');
-				if (highlight && card.highlightFn) {
-					card.highlightFn();
-				}
-				this.notifySubscribers(id, 'expand', { source: 'programmatic' });
+			if (isInGroup(card, groupId)) {
+				this.requestExpand(id, highlight, false);
 			}
 		});
-		this.notifyGlobalSubscribers('expandAll', 'all', { highlight });
+		this.emit({ type: 'expandGroup', groupId, highlight });
 	}
 
-	collapseAll(highlight: boolean = true): void {
+	collapseGroup(groupId: string, highlight: boolean = true): void {
 		this.cards.forEach((card, id) => {
-			if (card.isExpanded) {
-				card.collapseFn('programmatic');
-				if (highlight && card.highlightFn) {
-					card.highlightFn();
-				}
-				this.notifySubscribers(id, 'collapse', { source: 'programmatic' });
+			if (isInGroup(card, groupId)) {
+				this.requestCollapse(id, highlight, false);
 			}
 		});
-		this.notifyGlobalSubscribers('collapseAll', 'all', { highlight });
+		this.emit({ type: 'collapseGroup', groupId, highlight });
+	}
+
+	getCardsByGroup(groupId: string): string[] {
+		return Array.from(this.cards.entries())
+			.filter(([_, card]) => isInGroup(card, groupId))
+			.map(([id, _]) => id);
 	}
 
+	/**
+	 * Single-card operations return false when the card is missing, already in the requested
+	 * state, or an onBeforeExpand/onBeforeCollapse guard vetoed the change. A pending async guard
+	 * also reports false; use expandCardAsync/collapseCardAsync to await its outcome.
+	 */
 	toggleCard(id: string, highlight: boolean = true): boolean {
+		return this.requestToggle(id, highlight) === true;
+	}
+
+	expandCard(id: string, highlight: boolean = true): boolean {
+		return this.requestExpand(id, highlight) === true;
+	}
+
+	collapseCard(id: string, highlight: boolean = true): boolean {
+		return this.requestCollapse(id, highlight) === true;
+	}
+
+	toggleCardAsync(id: string, highlight: boolean = true): Promise<boolean> {
+		return Promise.resolve(this.requestToggle(id, highlight));
+	}
+
+	expandCardAsync(id: string, highlight: boolean = true): Promise<boolean> {
+		return Promise.resolve(this.requestExpand(id, highlight));
+	}
+
+	collapseCardAsync(id: string, highlight: boolean = true): Promise<boolean> {
+		return Promise.resolve(this.requestCollapse(id, highlight));
+	}
+
+	private requestToggle(id: string, highlight: boolean): boolean | Promise<boolean> {
 		const card = this.cards.get(id);
-		if (card) {
-			card.toggleFn('programmatic');
-			if (highlight && card.highlightFn) {
-				card.highlightFn();
-			}
-			this.notifySubscribers(id, 'toggle', {
-				source: 'programmatic',
-				newState: !card.isExpanded,
+		if (!card) return false;
+
+		const newState = !card.isExpanded;
+		const toggle = () =>
+			settleTransition(card.toggleFn('programmatic'), () => {
+				card.isExpanded = newState;
+				if (highlight && card.highlightFn) {
+					card.highlightFn();
+				}
+				this.emit({ type: 'toggle', cardId: id, source: 'programmatic', highlight, newState });
 			});
-			this.notifyGlobalSubscribers('toggle', id, { highlight, newState: !card.isExpanded });
-			return true;
-		}
-		return false;
+		return newState ? runInSequence([() => this.expandAncestors(id), toggle]) : toggle();
 	}
 
-	expandCard(id: string, highlight: boolean = true): boolean {
+	// Expanding a nested card also opens its collapsed ancestors
+	private requestExpand(
+		id: string,
+		highlight: boolean,
+		notifyGlobal: boolean = true
+	): boolean | Promise<boolean> {
+		const card = this.cards.get(id);
+		if (!card) return false;
+		const isHidden = this.getAncestors(id).some((ancestorId) => !this.isCardExpanded(ancestorId));
+		if (card.isExpanded && !isHidden) return false;
+
+		return runInSequence([
+			() => this.expandAncestors(id, notifyGlobal),
+			() => this.isCardExpanded(id) || this.transitionExpand(id, highlight, notifyGlobal),
+		]);
+	}
+
+	// Opens collapsed enclosing cards, outermost first
+	private expandAncestors(id: string, notifyGlobal: boolean = true): boolean | Promise<boolean> {
+		return runInSequence(
+			this.getAncestors(id)
+				.filter((ancestorId) => !this.isCardExpanded(ancestorId))
+				.map((ancestorId) => () => this.transitionExpand(ancestorId, false, notifyGlobal))
+		);
+	}
+
+	private transitionExpand(
+		id: string,
+		highlight: boolean,
+		notifyGlobal: boolean
+	): boolean | Promise<boolean> {
 		const card = this.cards.get(id);
-		if (card && !card.isExpanded) {
-			card.expandFn('programmatic');
+		if (!card || card.isExpanded) return false;
+
+		return settleTransition(card.expandFn('programmatic'), () => {
+			card.isExpanded = true;
 			if (highlight && card.highlightFn) {
 				card.highlightFn();
 			}
-			this.notifySubscribers(id, 'expand', { source: 'programmatic' });
-			this.notifyGlobalSubscribers('expand', id, { highlight });
-			return true;
-		}
-		return false;
+			this.emit({ type: 'expand', cardId: id, source: 'programmatic', highlight }, notifyGlobal);
+		});
 	}
 
-	collapseCard(id: string, highlight: boolean = true): boolean {
+	private requestCollapse(
+		id: string,
+		highlight: boolean,
+		notifyGlobal: boolean = true
+	): boolean | Promise<boolean> {
 		const card = this.cards.get(id);
-		if (card && card.isExpanded) {
-			card.collapseFn('programmatic');
+		if (!card || !card.isExpanded) return false;
+
+		return settleTransition(card.collapseFn('programmatic'), () => {
+			card.isExpanded = false;
 			if (highlight && card.highlightFn) {
 				card.highlightFn();
 			}
-			this.notifySubscribers(id, 'collapse', { source: 'programmatic' });
-			this.notifyGlobalSubscribers('collapse', id, { highlight });
-			return true;
+			this.emit({ type: 'collapse', cardId: id, source: 'programmatic', highlight }, notifyGlobal);
+		});
+	}
+
+	// Nested cards; the parent is captured from CardContext at registration
+	getParent(id: string): string | null {
+		return this.cards.get(id)?.parentId ?? null;
+	}
+
+	getChildren(id: string): string[] {
+		return Array.from(this.cards.entries())
+			.filter(([_, card]) => card.parentId === id)
+			.map(([cardId, _]) => cardId);
+	}
+
+	/** Registered enclosing cards, outermost first */
+	getAncestors(id: string): string[] {
+		const ancestors: string[] = [];
+		let parentId = this.cards.get(id)?.parentId;
+		while (parentId && this.cards.has(parentId) && !ancestors.includes(parentId)) {
+			ancestors.unshift(parentId);
+			parentId = this.cards.get(parentId)?.parentId;
 		}
-		return false;
+		return ancestors;
+	}
+
+	/** Collapses every expanded card nested inside this one, innermost first */
+	collapseDescendants(id: string, highlight: boolean = false): void {
+		this.getChildren(id).forEach((childId) => {
+			this.collapseDescendants(childId, highlight);
+			this.requestCollapse(childId, highlight);
+		});
 	}
 
 	highlightCard(id: string): boolean {
 		const card = this.cards.get(id);
 		if (card && card.highlightFn) {
 			card.highlightFn();
-			this.notifySubscribers(id, 'highlight');
-			this.notifyGlobalSubscribers('highlight', id);
+			this.emit({ type: 'highlight', cardId: id });
 			return true;
 		}
 		return false;
 	}
 
+	// Keyboard navigation between card headers
+	focusCard(id: string): boolean {
+		const card = this.cards.get(id);
+		if (card && card.focusFn && !card.disabled) {
+			try {
+				return card.focusFn();
+			} catch (error) {
+				console.warn(`Failed to focus card ${id}:`, error);
+				return false;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Ids of the enabled cards that share a navigation group with the given card, in document order.
+	 * A group is every card directly inside the same parent card or accordion (or the page).
+	 */
+	getNavigationGroup(id: string): string[] {
+		const element = this.cards.get(id)?.element;
+		if (!element) return [];
+
+		const container = getNavigationContainer(element);
+		return Array.from(this.cards.entries())
+			.filter(
+				([cardId, card]) =>
+					!!card.element &&
+					card.element.isConnected &&
+					(cardId === id || !card.disabled) &&
+					getNavigationContainer(card.element) === container
+			)
+			.sort(([, a], [, b]) =>
+				a.element!.compareDocumentPosition(b.element!) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+			)
+			.map(([cardId]) => cardId);
+	}
+
+	/** Focuses a neighbouring card header (wrapping around); returns the focused card id */
+	focusSiblingCard(id: string, direction: CardFocusDirection): string | null {
+		const group = this.getNavigationGroup(id);
+		const index = group.indexOf(id);
+		if (index < 0) return null;
+
+		let order: string[];
+		switch (direction) {
+			case 'next':
+				order = [...group.slice(index + 1), ...group.slice(0, index)];
+				break;
+			case 'previous':
+				order = [...group.slice(0, index).reverse(), ...group.slice(index + 1).reverse()];
+				break;
+			case 'first':
+				order = group;
+				break;
+			case 'last':
+				order = [...group].reverse();
+				break;
+		}
+
+		for (const cardId of order) {
+			if (cardId === id) return null;
+			if (this.focusCard(cardId)) return cardId;
+		}
+		return null;
+	}
+
+	// Scrolling and deep links
+	scrollToCard(id: string, options: CardScrollOptions = {}): boolean {
+		const card = this.cards.get(id);
+		if (!card) return false;
+
+		const { expand = true, highlight = true, behavior = 'smooth', block = 'start' } = options;
+
+		// Enclosing cards must be open for the target to be visible
+		const expanding = [...this.getAncestors(id), ...(expand ? [id] : [])].filter(
+			(cardId) => !this.isCardExpanded(cardId)
+		);
+		if (expand) {
+			this.requestExpand(id, false);
+		} else {
+			this.expandAncestors(id);
+		}
+
+		// Scroll once the expand transitions have finished so the final position is known
+		const scroll = () => {
+			Promise.all(expanding.map((cardId) => this.waitForAnimation(cardId))).then(() => {
+				card.element?.scrollIntoView({ behavior, block });
+				if (highlight) {
+					this.highlightCard(id);
+				}
+			});
+		};
+		if (typeof window !== 'undefined' && window.requestAnimationFrame) {
+			window.requestAnimationFrame(scroll);
+		} else {
+			scroll();
+		}
+		return true;
+	}
+
+	/** Resolves true once the card is registered, or false after the timeout */
+	waitForCard(id: string, timeout: number = 5000): Promise<boolean> {
+		if (this.cards.has(id)) return Promise.resolve(true);
+
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				unsubscribe();
+				resolve(false);
+			}, timeout);
+			const unsubscribe = this.on('register', (event) => {
+				if (event.cardId === id) {
+					clearTimeout(timer);
+					unsubscribe();
+					resolve(true);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Expands each card along the path, waiting for lazily rendered children to register,
+	 * then scrolls to the last one. Used for deep links like #card=parent/child.
+	 */
+	async revealCard(
+		path: string | string[],
+		options: CardScrollOptions = {},
+		timeout?: number
+	): Promise<boolean> {
+		const ids = typeof path === 'string' ? [path] : path;
+		if (ids.length === 0) return false;
+
+		for (const ancestorId of ids.slice(0, -1)) {
+			if (!(await this.waitForCard(ancestorId, timeout))) return false;
+			this.expandCard(ancestorId, false);
+		}
+
+		const id = ids[ids.length - 1];
+		if (!(await this.waitForCard(id, timeout))) return false;
+		return this.scrollToCard(id, options);
+	}
+
+	// Tabs (Card.Tabs)
+	/**
+	 * Activates a tab of the card; false when the card is unknown, the tab is unknown or disabled,
+	 * or it is already active. Before the card's Card.Tabs mounts (lazy content) this returns
+	 * false and the tab is selected, with a tabChange event, once it does.
+	 */
+	selectTab(id: string, tabId: string): boolean {
+		const card = this.cards.get(id);
+		if (!card?.selectTabFn) return false;
+
+		const previousTabId = card.activeTab;
+		if (!card.selectTabFn(tabId)) return false;
+		card.activeTab = tabId;
+		this.emit({ type: 'tabChange', cardId: id, tabId, previousTabId });
+		return true;
+	}
+
+	getActiveTab(id: string): string | undefined {
+		return this.cards.get(id)?.activeTab;
+	}
+
 	isCardExpanded(id: string): boolean {
 		const card = this.cards.get(id);
 		return card ? card.isExpanded : false;
@@ -210,6 +761,9 @@ class CardController {
 			id,
 			isExpanded: card.isExpanded,
 			hasContentLoaded: card.hasContentLoaded,
+			validation: card.validation,
+			parentId: card.parentId,
+			activeTab: card.activeTab,
 		}));
 	}
 
@@ -220,11 +774,33 @@ class CardController {
 				id,
 				isExpanded: card.isExpanded,
 				hasContentLoaded: card.hasContentLoaded,
+				validation: card.validation,
+				parentId: card.parentId,
+				activeTab: card.activeTab,
 			};
 		}
 		return null;
 	}
 
+	getCardValidation(id: string): CardValidationState | null {
+		const card = this.cards.get(id);
+		return card ? card.validation : null;
+	}
+
+	/** Cards containing at least one invalid Field */
+	getInvalidCards(): string[] {
+		return Array.from(this.cards.entries())
+			.filter(([_, card]) => !card.validation.isValid)
+			.map(([id, _]) => id);
+	}
+
+	/** Cards containing at least one Field with unsaved changes */
+	getDirtyCards(): string[] {
+		return Array.from(this.cards.entries())
+			.filter(([_, card]) => card.validation.isDirty)
+			.map(([id, _]) => id);
+	}
+
 	getExpandedCards(): string[] {
 		return Array.from(this.cards.entries())
 			.filter(([_, card]) => card.isExpanded)
@@ -239,10 +815,16 @@ class CardController {
 
 	// Batch operations for performance
 	batchOperation(
-		operations: Array<{ cardId: string; action: 'expand' | 'collapse' | 'toggle' }>,
-		highlight: boolean = true
+		operations: CardBatchOperation[],
+		highlight: boolean = true,
+		options: CardBatchOptions = {}
 	): void {
+		const { groupId } = options;
 		operations.forEach(({ cardId, action }) => {
+			if (groupId !== undefined) {
+				const card = this.cards.get(cardId);
+				if (!card || !isInGroup(card, groupId)) return;
+			}
 			switch (action) {
 				case 'expand':
 					this.expandCard(cardId, highlight);
@@ -255,7 +837,149 @@ class CardController {
 					break;
 			}
 		});
-		this.notifyGlobalSubscribers('batchOperation', 'multiple', { operations, highlight });
+		this.emit({ type: 'batchOperation', operations, highlight, groupId });
+	}
+
+	// Async content loaders (Content `load` prop)
+	registerLoader(id: string, reload: () => Promise<boolean>): () => void {
+		this.loaders.set(id, reload);
+		return () => {
+			if (this.loaders.get(id) === reload) {
+				this.loaders.delete(id);
+			}
+		};
+	}
+
+	/** Called by Content for every load it runs, so preparePrint can wait for them */
+	trackLoad(load: Promise<boolean>): void {
+		this.pendingLoads.add(load);
+		const settle = () => {
+			this.pendingLoads.delete(load);
+		};
+		load.then(settle, settle);
+	}
+
+	/** Re-runs the card's content loader; resolves false if there is none or it failed */
+	async refreshCard(id: string): Promise<boolean> {
+		const reload = this.loaders.get(id);
+		if (!reload) return false;
+		this.emit({ type: 'refresh', cardId: id });
+		return reload();
+	}
+
+	hasCachedContent(id: string): boolean {
+		return this.contentCache.has(id);
+	}
+
+	getCachedContent<T>(id: string): T | undefined {
+		return this.contentCache.get(id) as T | undefined;
+	}
+
+	setCachedContent<T>(id: string, data: T): void {
+		this.contentCache.set(id, data);
+	}
+
+	clearCachedContent(id?: string): void {
+		if (id) {
+			this.contentCache.delete(id);
+		} else {
+			this.contentCache.clear();
+		}
+	}
+
+	// State snapshots
+	snapshot(): CardSnapshot {
+		const cards: CardSnapshot['cards'] = {};
+		this.cards.forEach((card, id) => {
+			cards[id] = card.activeTab
+				? { isExpanded: card.isExpanded, activeTab: card.activeTab }
+				: { isExpanded: card.isExpanded };
+		});
+		return { version: 1, timestamp: Date.now(), cards };
+	}
+
+	/** Applies a snapshot to the registered cards; ids that are no longer registered are ignored */
+	restore(snapshot: CardSnapshot, highlight: boolean = false): string[] {
+		const restored: string[] = [];
+		Object.keys(snapshot?.cards ?? {}).forEach((id) => {
+			if (!this.cards.has(id)) return;
+			if (snapshot.cards[id].isExpanded) {
+				this.expandCard(id, highlight);
+			} else {
+				this.collapseCard(id, highlight);
+			}
+			const { activeTab } = snapshot.cards[id];
+			if (activeTab) {
+				this.selectTab(id, activeTab);
+			}
+			restored.push(id);
+		});
+		this.emit({ type: 'restore', cardIds: restored, highlight });
+		return restored;
+	}
+
+	// Print mode
+	/**
+	 * Renders every card expanded, with lazy content loaded and toolbars hidden, until endPrint().
+	 * The cards' own expanded state is left untouched, so leaving print mode restores the page.
+	 * Entered on window beforeprint and left on afterprint; call it directly before an export.
+	 * Resolves with an end function once the content loaders it started have settled.
+	 */
+	async preparePrint(): Promise<() => void> {
+		if (!this.printing) {
+			this.printing = true;
+			this.emit({ type: 'printStart' });
+		}
+		await this.settleLoads();
+		return () => this.endPrint();
+	}
+
+	/** Prints the page with every card expanded and its lazy content loaded */
+	async print(): Promise<void> {
+		const end = await this.preparePrint();
+		try {
+			window.print();
+		} finally {
+			end();
+		}
+	}
+
+	// Loads start over several renders (expanding, then mounting nested content); stop once
+	// a round passes with no loads pending and no registry change
+	private async settleLoads(): Promise<void> {
+		for (let round = 0; round < MAX_PRINT_SETTLE_ROUNDS; round++) {
+			const version = this.version;
+			await nextTick();
+			if (this.pendingLoads.size === 0 && this.version === version) return;
+			await Promise.all(Array.from(this.pendingLoads));
+		}
+	}
+
+	endPrint(): void {
+		if (!this.printing) return;
+		this.printing = false;
+		this.emit({ type: 'printEnd' });
+	}
+
+	isPrinting(): boolean {
+		return this.printing;
+	}
+
+	// Cross-tab synchronization (opt-in)
+	/** Mirrors expand, collapse and highlight operations to other tabs showing the same page */
+	enableSync(options: CardSyncOptions = {}): () => void {
+		this.disableSync();
+		this.disconnectSync = connectCardSync(this, options);
+		return () => this.disableSync();
+	}
+
+	disableSync(): void {
+		this.disconnectSync?.();
+		this.disconnectSync = undefined;
+	}
+
+	isSyncEnabled(): boolean {
+		return this.disconnectSync !== undefined;
 	}
 
 	// Utility methods
@@ -274,25 +998,49 @@ class CardController {
 	clearAllCards(): void {
 		const cardIds = Array.from(this.cards.keys());
 		cardIds.forEach((id) => this.unregisterCard(id));
-		this.notifyGlobalSubscribers('clearAll', 'all');
+		this.emit({ type: 'clearAll' });
 	}
 }
 
 // Export singleton instance and base class
 export const cardController = CardController.getInstance();
 
+// Scoped controller for a subtree (see CardControllerProvider); undefined means the global singleton
+export const CardControllerContext = React.createContext<CardController | undefined>(undefined);
+
 // Class Component Base for easy integration
 export class CardControllerComponent extends React.Component {
-	protected cardController = cardController;
+	private assignedController?: CardController;
+
+	// Assigned controller, else the nearest CardControllerProvider's, else the global one.
+	// Subclasses that declare their own contextType get the global controller.
+	protected get cardController(): CardController {
+		if (this.assignedController) return this.assignedController;
+		return this.context instanceof CardController ? this.context : cardController;
+	}
+
+	protected set cardController(controller: CardController) {
+		this.assignedController = controller;
+	}
+
 	private unsubscribers: (() => void)[] = [];
 
-	// Subscribe to card events
+	// Subscribe to typed controller events
+	protected subscribeToEvent<K extends CardControllerEventType>(
+		type: K,
+		handler: CardControllerEventHandler<K>
+	): void {
+		const unsubscribe = this.cardController.on(type, handler);
+		this.unsubscribers.push(unsubscribe);
+	}
+
+	/** @deprecated Use subscribeToEvent for typed event payloads */
 	protected subscribeToCard(cardId: string, callback: (action: string, data?: any) => void): void {
 		const unsubscribe = this.cardController.subscribe(cardId, callback);
 		this.unsubscribers.push(unsubscribe);
 	}
 
-	// Subscribe to all card events
+	/** @deprecated Use subscribeToEvent for typed event payloads */
 	protected subscribeToAllCards(
 		callback: (action: string, cardId: string, data?: any) => void
 	): void {
@@ -306,9 +1054,12 @@ export class CardControllerComponent extends React.Component {
 	}
 }
 
+// Set outside the class body so subclasses can still declare a contextType of another type
+(CardControllerComponent as React.ComponentClass).contextType = CardControllerContext;
+
 // Class Component Helper - HOC for easy integration
 export interface WithCardControllerProps {
-	cardController: typeof cardController;
+	cardController: CardController;
 }
 
 export function withCardController<P extends WithCardControllerProps>(
@@ -316,10 +1067,15 @@ export function withCardController<P extends WithCardControllerProps>(
 ): React.ComponentType<Omit<P, keyof WithCardControllerProps>> {
 	return class extends React.Component<Omit<P, keyof WithCardControllerProps>> {
 		render() {
-			return React.createElement(WrappedComponent, {
-				...(this.props as P),
-				cardController: cardController,
-			});
+			return React.createElement(
+				CardControllerContext.Consumer,
+				null,
+				(scoped: CardController | undefined) =>
+					React.createElement(WrappedComponent, {
+						...(this.props as P),
+						cardController: scoped ?? cardController,
+					})
+			);
 		}
 	};
 }
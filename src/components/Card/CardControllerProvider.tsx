@@ -0,0 +1,42 @@
+import React, { ReactNode, useContext, useEffect, useState } from 'react';
+import { CardSyncOptions } from './Card.types';
+import { CardController, CardControllerContext, cardController } from './CardController';
+
+export interface CardControllerProviderProps {
+	/** Existing controller to share; a new isolated controller is created when omitted */
+	controller?: CardController;
+	/** Synchronize card state with other tabs showing the same page (see enableSync) */
+	sync?: boolean | CardSyncOptions;
+	children: ReactNode;
+}
+
+// Isolates card ids and bulk operations (expandAll, collapseAll...) to the wrapped subtree
+export const CardControllerProvider: React.FC<CardControllerProviderProps> = ({
+	controller,
+	sync = false,
+	children,
+}) => {
+	const [scopedController] = useState(() => controller ?? new CardController());
+	const activeController = controller ?? scopedController;
+	const syncEnabled = !!sync;
+	const syncGroupId = typeof sync === 'object' ? sync.groupId : undefined;
+	const syncChannelName = typeof sync === 'object' ? sync.channelName : undefined;
+
+	useEffect(() => {
+		if (!syncEnabled) return;
+		return activeController.enableSync({ groupId: syncGroupId, channelName: syncChannelName });
+	}, [activeController, syncEnabled, syncGroupId, syncChannelName]);
+
+	return (
+		<CardControllerContext.Provider value={activeController}>
+			{children}
+		</CardControllerContext.Provider>
+	);
+};
+
+CardControllerProvider.displayName = 'CardControllerProvider';
+
+/** Nearest scoped controller, falling back to the global singleton */
+export const useCardControllerInstance = (): CardController => {
+	return useContext(CardControllerContext) ?? cardController;
+};
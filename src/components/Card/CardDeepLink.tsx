@@ -0,0 +1,90 @@
+import React, { useEffect } from 'react';
+import { CardScrollOptions } from './Card.types';
+import { useCardControllerInstance } from './CardControllerProvider';
+
+export interface CardDeepLinkOptions extends CardScrollOptions {
+	/** Hash/query parameter holding the card id or path (default 'card') */
+	param?: string;
+	/** Hash/query parameter holding the tab to select in the linked card (default 'tab') */
+	tabParam?: string;
+	/** How long to wait for each card on the path to register, in ms */
+	timeout?: number;
+}
+
+// The hash wins over the query string
+function readLinkParam(param: string): string | null {
+	return (
+		new URLSearchParams(window.location.hash.replace(/^#/, '')).get(param) ??
+		new URLSearchParams(window.location.search).get(param)
+	);
+}
+
+/**
+ * Reads a card path from the URL: #card=id, ?card=id, or parent/child for nested cards.
+ * The hash wins over the query string.
+ */
+export function parseCardDeepLink(param: string = 'card'): string[] | null {
+	try {
+		const value = readLinkParam(param);
+		const path = (value ?? '')
+			.split('/')
+			.map((id) => id.trim())
+			.filter(Boolean);
+		return path.length > 0 ? path : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Reads the tab to select in the linked card: #card=id&tab=history */
+export function parseCardTabDeepLink(param: string = 'tab'): string | null {
+	try {
+		return readLinkParam(param)?.trim() || null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Expands and scrolls to the card named in the URL, and selects its linked tab, on mount and
+ * whenever the hash changes
+ */
+export const useCardDeepLink = (options: CardDeepLinkOptions = {}): void => {
+	const controller = useCardControllerInstance();
+	const { param = 'card', tabParam = 'tab', timeout, expand, highlight, behavior, block } = options;
+
+	useEffect(() => {
+		if (typeof window === 'undefined') return;
+
+		let active = true;
+		const handleLocation = () => {
+			const path = parseCardDeepLink(param);
+			if (!path) return;
+
+			const tabId = parseCardTabDeepLink(tabParam);
+			controller
+				.revealCard(path, { expand, highlight, behavior, block }, timeout)
+				.then((revealed) => {
+					// Tabs in lazily loaded content pick the request up once they mount
+					if (active && revealed && tabId) {
+						controller.selectTab(path[path.length - 1], tabId);
+					}
+				});
+		};
+
+		handleLocation();
+		window.addEventListener('hashchange', handleLocation);
+		return () => {
+			active = false;
+			window.removeEventListener('hashchange', handleLocation);
+		};
+	}, [controller, param, tabParam, timeout, expand, highlight, behavior, block]);
+};
+
+// Component form of useCardDeepLink for class-based web parts
+export const CardDeepLinkListener: React.FC<CardDeepLinkOptions> = (props) => {
+	useCardDeepLink(props);
+	return null;
+};
+
+CardDeepLinkListener.displayName = 'CardDeepLinkListener';
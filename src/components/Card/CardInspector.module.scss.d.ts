@@ -0,0 +1,21 @@
+// This file is auto-generated. Do not edit manually.
+declare const styles: {
+	readonly inspector: string;
+	readonly toolbar: string;
+	readonly title: string;
+	readonly count: string;
+	readonly filter: string;
+	readonly section: string;
+	readonly table: string;
+	readonly actions: string;
+	readonly events: string;
+	readonly event: string;
+	readonly time: string;
+	readonly action: string;
+	readonly source: string;
+	readonly data: string;
+	readonly module: string;
+	readonly css: string;
+	readonly map: string;
+};
+export default styles;
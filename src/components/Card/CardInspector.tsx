@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CardState } from './Card.types';
+import { CardController } from './CardController';
+import { useCardControllerInstance } from './CardControllerProvider';
+import styles from './CardInspector.module.scss';
+
+// Dev URL flag, in the spirit of the ?spctx* overrides: ?spcardinspect=1
+const INSPECT_PARAM = 'spcardinspect';
+const DEFAULT_MAX_EVENTS = 200;
+const REREGISTER_WINDOW = 16;
+
+/** True when ?spcardinspect is set (and not 0) in a non-production build */
+export function isCardInspectorEnabled(): boolean {
+	if (process.env.NODE_ENV === 'production') return false;
+	try {
+		const value = new URLSearchParams(window.location.search).get(INSPECT_PARAM);
+		return value != null && value !== '0';
+	} catch {
+		return false;
+	}
+}
+
+export interface CardInspectorProps {
+	/** Controller to inspect; defaults to the nearest CardControllerProvider or the global one */
+	controller?: CardController;
+	/** Maximum number of events kept in the log (default 200) */
+	maxEvents?: number;
+}
+
+interface InspectorEvent {
+	seq: number;
+	timestamp: number;
+	action: string;
+	cardId: string;
+	source?: string;
+	data?: unknown;
+}
+
+const formatTime = (timestamp: number) => {
+	const date = new Date(timestamp);
+	const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+	return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(
+		date.getMilliseconds(),
+		3
+	)}`;
+};
+
+const formatData = (data: unknown) => {
+	if (data === undefined) return '';
+	try {
+		return JSON.stringify(data);
+	} catch {
+		return String(data);
+	}
+};
+
+// Parents first, each followed by its nested cards
+const orderByHierarchy = (states: CardState[]): { state: CardState; depth: number }[] => {
+	const ids = new Set(states.map((state) => state.id));
+	const children = new Map<string | undefined, CardState[]>();
+	states.forEach((state) => {
+		const parentId = state.parentId && ids.has(state.parentId) ? state.parentId : undefined;
+		children.set(parentId, [...(children.get(parentId) ?? []), state]);
+	});
+
+	const rows: { state: CardState; depth: number }[] = [];
+	const visit = (parentId: string | undefined, depth: number) => {
+		(children.get(parentId) ?? []).forEach((state) => {
+			rows.push({ state, depth });
+			if (state.id !== parentId) visit(state.id, depth + 1);
+		});
+	};
+	visit(undefined, 0);
+	return rows;
+};
+
+const CardInspectorPanel: React.FC<
+	Required<Pick<CardInspectorProps, 'maxEvents'>> & CardInspectorProps
+> = ({ controller, maxEvents }) => {
+	const nearestController = useCardControllerInstance();
+	const target = controller ?? nearestController;
+	const [states, setStates] = useState(() => target.getCardStates());
+	const [events, setEvents] = useState<InspectorEvent[]>([]);
+	const [isMinimized, setIsMinimized] = useState(false);
+	const [filter, setFilter] = useState('');
+	const seqRef = useRef(0);
+	// Last logged expanded/loaded state per card, to skip stateUpdates that change nothing
+	const loggedStateRef = useRef(new Map<string, string>());
+
+	// Registry changes arrive in bursts (expandAll, mounts); repaint once per frame
+	useEffect(() => {
+		let frame: number | undefined;
+		setStates(target.getCardStates());
+		const unsubscribe = target.on('*', () => {
+			if (frame !== undefined) return;
+			frame = window.requestAnimationFrame(() => {
+				frame = undefined;
+				setStates(target.getCardStates());
+			});
+		});
+		return () => {
+			unsubscribe();
+			if (frame !== undefined) window.cancelAnimationFrame(frame);
+		};
+	}, [target]);
+
+	// Typed events carry the source that the deprecated global payload leaves out
+	useEffect(
+		() =>
+			target.on('*', (controllerEvent) => {
+				const { type, ...rest } = controllerEvent;
+				const {
+					cardId = '',
+					source,
+					...data
+				} = rest as {
+					cardId?: string;
+					source?: string;
+					[key: string]: unknown;
+				};
+
+				if (type === 'register' || type === 'stateUpdate') {
+					const state = `${data.isExpanded}/${data.hasContentLoaded}`;
+					const previousState = loggedStateRef.current.get(cardId);
+					loggedStateRef.current.set(cardId, state);
+					if (type === 'stateUpdate' && state === previousState) return;
+				}
+
+				const event: InspectorEvent = {
+					seq: ++seqRef.current,
+					timestamp: Date.now(),
+					action: type,
+					cardId,
+					source,
+					data: Object.keys(data).length > 0 ? data : undefined,
+				};
+				setEvents((previous) => {
+					// Cards re-register on every state change; drop the unregister/register pair
+					// when both happen within one commit
+					if (type === 'register') {
+						const index = previous.findIndex((logged) => logged.cardId === cardId);
+						const unregistered = index >= 0 ? previous[index] : undefined;
+						if (
+							unregistered?.action === 'unregister' &&
+							event.timestamp - unregistered.timestamp < REREGISTER_WINDOW
+						) {
+							return [...previous.slice(0, index), ...previous.slice(index + 1)];
+						}
+					}
+					return [event, ...previous].slice(0, maxEvents);
+				});
+			}),
+		[target, maxEvents]
+	);
+
+	const rows = useMemo(() => {
+		const query = filter.trim().toLowerCase();
+		const ordered = orderByHierarchy(states);
+		return query ? ordered.filter(({ state }) => state.id.toLowerCase().includes(query)) : ordered;
+	}, [states, filter]);
+
+	const panel = (
+		<section className={styles.inspector} aria-label="Card inspector">
+			<header className={styles.toolbar}>
+				<strong className={styles.title}>
+					Cards <span className={styles.count}>{states.length}</span>
+				</strong>
+				{!isMinimized && (
+					<>
+						<input
+							className={styles.filter}
+							type="search"
+							placeholder="Filter by id"
+							aria-label="Filter cards by id"
+							value={filter}
+							onChange={(e) => setFilter(e.target.value)}
+						/>
+						<button type="button" onClick={() => target.expandAll()}>
+							Expand all
+						</button>
+						<button type="button" onClick={() => target.collapseAll()}>
+							Collapse all
+						</button>
+					</>
+				)}
+				<button
+					type="button"
+					onClick={() => setIsMinimized((minimized) => !minimized)}
+					aria-expanded={!isMinimized}
+				>
+					{isMinimized ? 'Show' : 'Hide'}
+				</button>
+			</header>
+
+			{!isMinimized && (
+				<>
+					<div className={styles.section}>
+						<table className={styles.table}>
+							<thead>
+								<tr>
+									<th scope="col">Card</th>
+									<th scope="col">State</th>
+									<th scope="col">Fields</th>
+									<th scope="col">Actions</th>
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map(({ state, depth }) => (
+									<tr key={state.id}>
+										<td style={{ paddingLeft: 8 + depth * 12 }} title={state.id}>
+											{state.id}
+										</td>
+										<td>
+											{state.isExpanded ? 'expanded' : 'collapsed'}
+											{!state.hasContentLoaded && ' · not loaded'}
+											{target.isCardAnimating(state.id) && ' · animating'}
+											{state.activeTab && ` · tab ${state.activeTab}`}
+										</td>
+										<td>
+											{state.validation.errorCount > 0 && `${state.validation.errorCount} errors `}
+											{state.validation.isDirty && 'dirty'}
+										</td>
+										<td className={styles.actions}>
+											<button type="button" onClick={() => target.expandCard(state.id)}>
+												Expand
+											</button>
+											<button type="button" onClick={() => target.collapseCard(state.id)}>
+												Collapse
+											</button>
+											<button type="button" onClick={() => target.highlightCard(state.id)}>
+												Highlight
+											</button>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+
+					<header className={styles.toolbar}>
+						<strong className={styles.title}>
+							Events <span className={styles.count}>{events.length}</span>
+						</strong>
+						<button type="button" onClick={() => setEvents([])}>
+							Clear
+						</button>
+					</header>
+					<ol className={`${styles.section} ${styles.events}`} aria-live="off">
+						{events.map((event) => (
+							<li key={event.seq} className={styles.event}>
+								<time className={styles.time}>{formatTime(event.timestamp)}</time>
+								<span className={styles.action}>{event.action}</span>
+								<span>{event.cardId}</span>
+								{event.source && <span className={styles.source}>{event.source}</span>}
+								<span className={styles.data}>{formatData(event.data)}</span>
+							</li>
+						))}
+					</ol>
+				</>
+			)}
+		</section>
+	);
+
+	return typeof document !== 'undefined' ? createPortal(panel, document.body) : null;
+};
+
+/**
+ * Debugging panel listing registered cards and streaming controller events.
+ * Renders nothing unless enabled with ?spcardinspect=1 in a non-production build.
+ */
+export const CardInspector: React.FC<CardInspectorProps> = ({
+	controller,
+	maxEvents = DEFAULT_MAX_EVENTS,
+}) => {
+	const [isEnabled] = useState(isCardInspectorEnabled);
+	return isEnabled ? <CardInspectorPanel controller={controller} maxEvents={maxEvents} /> : null;
+};
+
+CardInspector.displayName = 'CardInspector';
@@ -0,0 +1,125 @@
+import { CardPersistMode } from './Card.types';
+
+// Storage keys are namespaced per page so the same card id can be reused on other pages
+const STORAGE_PREFIX = 'spfx-card';
+const HASH_PARAM = 'cards';
+
+export interface PersistedCardState {
+	isExpanded: boolean;
+	activeTab?: string;
+}
+
+export function resolvePersistMode(
+	persistState?: boolean | CardPersistMode
+): CardPersistMode | undefined {
+	if (persistState === true) return 'localStorage';
+	return persistState || undefined;
+}
+
+function getPageKey(): string {
+	try {
+		return window.location.pathname.toLowerCase();
+	} catch {
+		return '';
+	}
+}
+
+export function getStorageKey(cardId: string): string {
+	return `${STORAGE_PREFIX}:${getPageKey()}:${cardId}`;
+}
+
+function getStorage(mode: CardPersistMode): Storage | undefined {
+	try {
+		return mode === 'sessionStorage' ? window.sessionStorage : window.localStorage;
+	} catch {
+		// Storage can be blocked (privacy mode, sandboxed iframes)
+		return undefined;
+	}
+}
+
+// URL hash format: #cards=<id>:<0|1>[:<tab>],... (ids and tabs are URI-encoded)
+function readHashStates(): Map<string, PersistedCardState> {
+	const states = new Map<string, PersistedCardState>();
+	try {
+		const raw = new URLSearchParams(window.location.hash.replace(/^#/, '')).get(HASH_PARAM);
+		if (!raw) return states;
+		raw.split(',').forEach((entry) => {
+			const [encodedId, expanded, encodedTab] = entry.split(':');
+			if (encodedId) {
+				states.set(decodeURIComponent(encodedId), {
+					isExpanded: expanded === '1',
+					...(encodedTab && { activeTab: decodeURIComponent(encodedTab) }),
+				});
+			}
+		});
+	} catch {
+		/* ignore malformed hash */
+	}
+	return states;
+}
+
+function writeHashStates(states: Map<string, PersistedCardState>): void {
+	try {
+		const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+		const value = Array.from(states.entries())
+			.map(
+				([id, state]) =>
+					`${encodeURIComponent(id)}:${state.isExpanded ? '1' : '0'}${
+						state.activeTab ? `:${encodeURIComponent(state.activeTab)}` : ''
+					}`
+			)
+			.join(',');
+		if (value) {
+			params.set(HASH_PARAM, value);
+		} else {
+			params.delete(HASH_PARAM);
+		}
+		const hash = params.toString();
+		const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+		// replaceState avoids history entries and the scroll jump of assigning location.hash
+		window.history.replaceState(window.history.state, '', url);
+	} catch {
+		/* ignore */
+	}
+}
+
+export function readPersistedCard(
+	cardId: string,
+	mode: CardPersistMode
+): PersistedCardState | undefined {
+	if (mode === 'urlHash') {
+		return readHashStates().get(cardId);
+	}
+
+	const storage = getStorage(mode);
+	if (!storage) return undefined;
+	try {
+		const raw = storage.getItem(getStorageKey(cardId));
+		if (!raw) return undefined;
+		const parsed = JSON.parse(raw);
+		return typeof parsed?.isExpanded === 'boolean' ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export function writePersistedCard(
+	cardId: string,
+	mode: CardPersistMode,
+	state: PersistedCardState
+): void {
+	if (mode === 'urlHash') {
+		const states = readHashStates();
+		states.set(cardId, state);
+		writeHashStates(states);
+		return;
+	}
+
+	const storage = getStorage(mode);
+	if (!storage) return;
+	try {
+		storage.setItem(getStorageKey(cardId), JSON.stringify(state));
+	} catch {
+		/* ignore quota errors */
+	}
+}
@@ -0,0 +1,116 @@
+import type { CardController } from './CardController';
+import { CardControllerEvent, CardSyncOptions } from './Card.types';
+
+const CHANNEL_PREFIX = 'spfx-card-sync';
+
+type CardSyncMessage =
+	| { origin: string; type: 'expand' | 'collapse'; cardId: string; highlight: boolean }
+	| { origin: string; type: 'highlight'; cardId: string };
+
+function getPageKey(): string {
+	try {
+		return window.location.pathname.toLowerCase();
+	} catch {
+		return '';
+	}
+}
+
+/**
+ * Mirrors expand, collapse and highlight operations to other tabs showing the same page.
+ * Remote operations are applied programmatically and never re-broadcast. Returns a disconnect
+ * function; a no-op when BroadcastChannel is unavailable.
+ */
+export function connectCardSync(
+	controller: CardController,
+	options: CardSyncOptions = {}
+): () => void {
+	if (typeof BroadcastChannel === 'undefined') return () => undefined;
+
+	const { groupId, channelName = CHANNEL_PREFIX } = options;
+	const channel = new BroadcastChannel(`${channelName}:${getPageKey()}:${groupId ?? '*'}`);
+	const origin = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+	// Last expanded state seen per card; changes that match it are not broadcast
+	const known = new Map<string, boolean>();
+	// highlightCard emits synchronously, so a flag is enough to skip re-broadcasting it
+	let applyingHighlight = false;
+
+	const inScope = (cardId: string) =>
+		groupId === undefined || controller.getCardsByGroup(groupId).includes(cardId);
+
+	const post = (message: CardSyncMessage) => {
+		try {
+			channel.postMessage(message);
+		} catch (error) {
+			console.warn('Failed to broadcast card state:', error);
+		}
+	};
+
+	const track = (cardId: string, isExpanded: boolean, highlight: boolean) => {
+		const previous = known.get(cardId);
+		known.set(cardId, isExpanded);
+		// Cards mounting (or re-registering) report their state without having changed it
+		if (previous === undefined || previous === isExpanded || !inScope(cardId)) return;
+		post({ origin, type: isExpanded ? 'expand' : 'collapse', cardId, highlight });
+	};
+
+	const handleEvent = (event: CardControllerEvent) => {
+		switch (event.type) {
+			case 'register':
+			case 'stateUpdate':
+				track(event.cardId, event.isExpanded, false);
+				break;
+			case 'expand':
+				track(event.cardId, true, event.highlight);
+				break;
+			case 'collapse':
+				track(event.cardId, false, event.highlight);
+				break;
+			case 'toggle':
+				track(event.cardId, event.newState, event.highlight);
+				break;
+			case 'highlight':
+				if (inScope(event.cardId)) {
+					post({ origin, type: 'highlight', cardId: event.cardId });
+				}
+				break;
+		}
+	};
+
+	const handleMessage = ({ data }: MessageEvent<CardSyncMessage>) => {
+		if (!data || data.origin === origin || !inScope(data.cardId)) return;
+		if (!controller.isCardRegistered(data.cardId)) return;
+
+		if (data.type === 'highlight') {
+			applyingHighlight = true;
+			try {
+				controller.highlightCard(data.cardId);
+			} finally {
+				applyingHighlight = false;
+			}
+			return;
+		}
+		// Record the remote state first so the resulting local events are not echoed back
+		const isExpanded = data.type === 'expand';
+		known.set(data.cardId, isExpanded);
+		const applied = isExpanded
+			? controller.expandCard(data.cardId, data.highlight)
+			: controller.collapseCard(data.cardId, data.highlight);
+		if (!applied) {
+			// Vetoed by a guard (or already in that state)
+			known.set(data.cardId, controller.isCardExpanded(data.cardId));
+		}
+	};
+
+	const unsubscribe = controller.on('*', (event: CardControllerEvent) => {
+		if (event.type === 'highlight' && applyingHighlight) return;
+		handleEvent(event);
+	});
+	controller.getCardStates().forEach((state) => known.set(state.id, state.isExpanded));
+	channel.addEventListener('message', handleMessage);
+
+	return () => {
+		unsubscribe();
+		channel.removeEventListener('message', handleMessage);
+		channel.close();
+	};
+}
@@ -0,0 +1,52 @@
+import { CSSProperties, useEffect, useMemo, useState } from 'react';
+import type { IReadonlyTheme } from '@microsoft/sp-component-base';
+import { themeBus } from '../utils/theme';
+
+type CardTheme = IReadonlyTheme | undefined;
+
+/**
+ * Maps a Fluent/SharePoint theme onto the --card-theme-* custom properties used by
+ * Card.module.scss; unset colors fall back to the :root defaults in ComponentTheme.scss.
+ */
+export function getCardThemeVariables(theme: CardTheme): CSSProperties | undefined {
+	if (!theme) return undefined;
+
+	const palette = theme.palette ?? {};
+	const semantic = theme.semanticColors ?? {};
+	const variables: { [name: string]: string | undefined } = {
+		'--card-theme-primary': palette.themePrimary,
+		'--card-theme-primary-dark': palette.themeDark,
+		'--card-theme-primary-light': palette.themeLight,
+		'--card-theme-neutral-lighter': palette.neutralLighter,
+		'--card-theme-neutral-light': palette.neutralLight,
+		'--card-theme-neutral-tertiary': palette.neutralTertiary,
+		'--card-theme-neutral-secondary': palette.neutralSecondary,
+		'--card-theme-neutral-primary': semantic.bodyText ?? palette.neutralPrimary,
+		'--card-theme-white': semantic.bodyBackground ?? palette.white,
+		'--card-theme-success': semantic.successIcon ?? palette.green,
+		'--card-theme-error': semantic.errorIcon ?? palette.red,
+		'--card-theme-warning': semantic.warningHighlight ?? palette.yellow,
+		'--card-theme-info': palette.themePrimary,
+	};
+
+	return Object.keys(variables).reduce((style, name) => {
+		if (variables[name]) {
+			(style as { [name: string]: string })[name] = variables[name] as string;
+		}
+		return style;
+	}, {} as CSSProperties);
+}
+
+/** Theme for a card: the explicit section variant if given, otherwise the live ThemeBus theme */
+export const useCardTheme = (themeVariant?: IReadonlyTheme): CSSProperties | undefined => {
+	const [busTheme, setBusTheme] = useState<CardTheme>(() => themeBus.snapshot());
+
+	useEffect(() => {
+		// The theme may have been set between render and subscription
+		setBusTheme(themeBus.snapshot());
+		return themeBus.onChange((theme) => setBusTheme(theme));
+	}, []);
+
+	const theme = themeVariant ?? busTheme;
+	return useMemo(() => getCardThemeVariables(theme), [theme]);
+};
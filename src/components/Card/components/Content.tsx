@@ -1,16 +1,214 @@
-import React, { memo, useMemo, useEffect } from 'react';
+import React, {
+	memo,
+	useMemo,
+	useEffect,
+	useLayoutEffect,
+	useState,
+	useRef,
+	useCallback,
+} from 'react';
 import { ContentProps } from '../Card.types';
 import { useCardContext } from '../CardContext';
+import { useCardControllerInstance } from '../CardControllerProvider';
 import styles from '../Card.module.scss';
+import { ContentErrorBoundary } from './ContentErrorBoundary';
 
-const Content = memo<ContentProps>(
+// Function children are rendered as a component so the error boundary can catch their errors
+const RenderContent: React.FC<{ render: () => React.ReactNode }> = ({ render }) => <>{render()}</>;
+
+// Matches the .content height transition in Card.module.scss
+const ANIMATION_DURATION = 300;
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const usePrefersReducedMotion = (): boolean => {
+	const [reducedMotion, setReducedMotion] = useState(
+		() => typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches
+	);
+
+	useEffect(() => {
+		if (typeof window === 'undefined' || !window.matchMedia) return;
+		const query = window.matchMedia(REDUCED_MOTION_QUERY);
+		const handleChange = () => setReducedMotion(query.matches);
+		handleChange();
+		// Safari < 14 only supports addListener
+		if (query.addEventListener) {
+			query.addEventListener('change', handleChange);
+			return () => query.removeEventListener('change', handleChange);
+		}
+		query.addListener(handleChange);
+		return () => query.removeListener(handleChange);
+	}, []);
+
+	return reducedMotion;
+};
+
+// Animates the content height between 0 and its measured height whenever isExpanded changes
+const useHeightTransition = (
+	contentRef: React.RefObject<HTMLDivElement>,
+	isExpanded: boolean,
+	animate: boolean,
+	onAnimationEvent: (type: 'animationStart' | 'animationEnd') => void
+) => {
+	const onAnimationEventRef = useRef(onAnimationEvent);
+	onAnimationEventRef.current = onAnimationEvent;
+	const animateRef = useRef(animate);
+	animateRef.current = animate;
+	const isFirstRenderRef = useRef(true);
+	const isAnimatingRef = useRef(false);
+
+	// Pair an interrupted transition's animationStart when the content unmounts
+	useEffect(
+		() => () => {
+			if (isAnimatingRef.current) {
+				isAnimatingRef.current = false;
+				onAnimationEventRef.current('animationEnd');
+			}
+		},
+		[]
+	);
+
+	useLayoutEffect(() => {
+		if (isFirstRenderRef.current) {
+			isFirstRenderRef.current = false;
+			return;
+		}
+		const element = contentRef.current;
+		if (!element) return;
+
+		onAnimationEventRef.current('animationStart');
+		if (!animateRef.current) {
+			isAnimatingRef.current = false;
+			element.style.height = '';
+			onAnimationEventRef.current('animationEnd');
+			return;
+		}
+
+		// An interrupted transition leaves an inline height; continue from where it stopped
+		const from = element.style.height
+			? element.offsetHeight
+			: isExpanded
+			? 0
+			: element.scrollHeight;
+		const to = isExpanded ? element.scrollHeight : 0;
+		element.style.height = `${from}px`;
+		// Force a reflow so the start height is applied before transitioning
+		void element.offsetHeight;
+		element.style.height = `${to}px`;
+
+		let finished = false;
+		isAnimatingRef.current = true;
+		const finish = () => {
+			if (finished) return;
+			finished = true;
+			isAnimatingRef.current = false;
+			element.style.height = '';
+			onAnimationEventRef.current('animationEnd');
+		};
+		const handleTransitionEnd = (e: TransitionEvent) => {
+			if (e.target === element && e.propertyName === 'height') finish();
+		};
+		element.addEventListener('transitionend', handleTransitionEnd);
+		// transitionend does not fire if the transition is cancelled or the tab is hidden
+		const fallback = setTimeout(finish, ANIMATION_DURATION + 100);
+
+		return () => {
+			finished = true;
+			element.removeEventListener('transitionend', handleTransitionEnd);
+			clearTimeout(fallback);
+		};
+	}, [contentRef, isExpanded]);
+};
+
+interface LoaderState<T> {
+	hasData: boolean;
+	data?: T;
+	loading: boolean;
+	error?: Error;
+}
+
+// Runs the Content `load` prop once enabled, caches the result per card id and backs refreshCard(id)
+const useContentLoader = <T,>(
+	cardId: string,
+	load: (() => Promise<T>) | undefined,
+	enabled: boolean
+) => {
+	const controller = useCardControllerInstance();
+	const loadRef = useRef(load);
+	loadRef.current = load;
+	const requestRef = useRef(0);
+	const mountedRef = useRef(true);
+
+	const [state, setState] = useState<LoaderState<T>>(() =>
+		controller.hasCachedContent(cardId)
+			? { hasData: true, data: controller.getCachedContent<T>(cardId), loading: false }
+			: { hasData: false, loading: false }
+	);
+
+	const run = useCallback(async (): Promise<boolean> => {
+		const load = loadRef.current;
+		if (!load) return false;
+
+		const request = ++requestRef.current;
+		setState((prev) => ({ ...prev, loading: true, error: undefined }));
+		try {
+			const pending = load();
+			controller.trackLoad(
+				pending.then(
+					() => true,
+					() => false
+				)
+			);
+			const data = await pending;
+			controller.setCachedContent(cardId, data);
+			if (mountedRef.current && request === requestRef.current) {
+				setState({ hasData: true, data, loading: false });
+			}
+			return true;
+		} catch (error) {
+			if (mountedRef.current && request === requestRef.current) {
+				setState((prev) => ({
+					...prev,
+					loading: false,
+					error: error instanceof Error ? error : new Error(String(error)),
+				}));
+			}
+			return false;
+		}
+	}, [controller, cardId]);
+
+	useEffect(() => {
+		mountedRef.current = true;
+		return () => {
+			mountedRef.current = false;
+		};
+	}, []);
+
+	// First load, skipped when a cached result exists
+	const hasLoader = !!load;
+	useEffect(() => {
+		if (hasLoader && enabled && !state.hasData && !state.loading && !state.error) {
+			run();
+		}
+	}, [hasLoader, enabled, state.hasData, state.loading, state.error, run]);
+
+	useEffect(() => {
+		if (!hasLoader) return;
+		return controller.registerLoader(cardId, run);
+	}, [controller, cardId, hasLoader, run]);
+
+	return { ...state, retry: run };
+};
+
+const ContentComponent = memo<ContentProps<any>>(
 	({
 		children,
+		load,
 		className = '',
 		style,
 		padding = 'medium',
 		loadingPlaceholder,
 		errorBoundary = true,
+		renderError,
 	}) => {
 		const {
 			isExpanded,
@@ -21,24 +219,41 @@ const Content = memo<ContentProps>(
 			loading,
 			onContentLoad,
 			disableAnimation,
+			virtualizeContent,
+			isNearViewport,
+			onAnimationEvent,
+			getContentProps,
 		} = useCardContext();
 
+		const contentRef = useRef<HTMLDivElement>(null);
+		const bodyRef = useRef<HTMLDivElement>(null);
+		const prefersReducedMotion = usePrefersReducedMotion();
+		const animate = !disableAnimation && !prefersReducedMotion;
+		useHeightTransition(contentRef, isExpanded, animate, onAnimationEvent);
+		const [measuredHeight, setMeasuredHeight] = useState<number>();
+		const isVirtualized = virtualizeContent && !isNearViewport;
+
 		const contentClasses = useMemo(
 			() =>
 				[
 					styles.content,
 					isExpanded ? styles.expanded : styles.collapsed,
-					disableAnimation ? styles.noAnimation : '',
+					animate ? '' : styles.noAnimation,
 					className,
 				]
 					.filter(Boolean)
 					.join(' '),
-			[isExpanded, disableAnimation, className]
+			[isExpanded, animate, className]
 		);
 
 		const bodyClasses = useMemo(
 			() =>
-				[styles.body, styles[`padding${padding.charAt(0).toUpperCase() + padding.slice(1)}` as keyof typeof styles]]
+				[
+					styles.body,
+					styles[
+						`padding${padding.charAt(0).toUpperCase() + padding.slice(1)}` as keyof typeof styles
+					],
+				]
 					.filter(Boolean)
 					.join(' '),
 			[padding]
@@ -47,6 +262,22 @@ const Content = memo<ContentProps>(
 		// Handle lazy loading
 		const shouldRenderContent = !lazyLoad || hasContentLoaded;
 		const isContentFunction = typeof children === 'function';
+		const loader = useContentLoader(id, load, shouldRenderContent && !isVirtualized);
+
+		// Remember the rendered height so offscreen content can be swapped for a same-size spacer
+		useEffect(() => {
+			const body = bodyRef.current;
+			if (!virtualizeContent || isVirtualized || !body) return;
+
+			const measure = () => {
+				if (body.offsetHeight > 0) setMeasuredHeight(body.offsetHeight);
+			};
+			measure();
+			if (typeof ResizeObserver === 'undefined') return;
+			const observer = new ResizeObserver(measure);
+			observer.observe(body);
+			return () => observer.disconnect();
+		}, [virtualizeContent, isVirtualized]);
 
 		const contentToRender = useMemo(() => {
 			if (!shouldRenderContent) {
@@ -55,6 +286,33 @@ const Content = memo<ContentProps>(
 						<div className={styles.loadingShimmer} style={{ height: 100, borderRadius: 4 }} />
 					)
 				);
+			} else if (load) {
+				if (loader.error && !loader.loading) {
+					return (
+						<div className={styles.contentError} role="alert">
+							<div className={styles.contentErrorMessage}>
+								{loader.error.message || 'Unable to load content.'}
+							</div>
+							<button type="button" className={styles.contentErrorRetry} onClick={loader.retry}>
+								Retry
+							</button>
+						</div>
+					);
+				}
+				if (!loader.hasData) {
+					return (
+						loadingPlaceholder || (
+							<div className={styles.loadingShimmer} style={{ height: 100, borderRadius: 4 }} />
+						)
+					);
+				}
+				return isContentFunction ? (
+					<RenderContent
+						render={() => (children as (data: unknown) => React.ReactNode)(loader.data)}
+					/>
+				) : (
+					children
+				);
 			} else if (loading && !isContentFunction) {
 				return (
 					loadingPlaceholder || (
@@ -62,9 +320,25 @@ const Content = memo<ContentProps>(
 					)
 				);
 			} else {
-				return isContentFunction ? (children as () => React.ReactNode)() : children;
+				return isContentFunction ? (
+					<RenderContent render={children as () => React.ReactNode} />
+				) : (
+					children
+				);
 			}
-		}, [shouldRenderContent, loading, isContentFunction, children, loadingPlaceholder]);
+		}, [
+			shouldRenderContent,
+			load,
+			loader.error,
+			loader.loading,
+			loader.hasData,
+			loader.data,
+			loader.retry,
+			loading,
+			isContentFunction,
+			children,
+			loadingPlaceholder,
+		]);
 
 		// Notify when content loads for the first time
 		useEffect(() => {
@@ -74,18 +348,34 @@ const Content = memo<ContentProps>(
 		}, [shouldRenderContent, lazyLoad, isExpanded, onContentLoad]);
 
 		return (
-			<div
-				className={contentClasses}
-				style={style}
-				id={`card-content-${id}`}
-				aria-hidden={!isExpanded}
-			>
-				<div className={bodyClasses}>{contentToRender}</div>
+			<div ref={contentRef} {...getContentProps({ className: contentClasses, style })}>
+				{isVirtualized ? (
+					<div className={bodyClasses} style={{ height: measuredHeight }} aria-busy="true">
+						{measuredHeight === undefined &&
+							(loadingPlaceholder || (
+								<div className={styles.loadingShimmer} style={{ height: 100, borderRadius: 4 }} />
+							))}
+					</div>
+				) : (
+					<div className={bodyClasses} ref={bodyRef}>
+						{errorBoundary ? (
+							<ContentErrorBoundary cardId={id} renderError={renderError}>
+								{contentToRender}
+							</ContentErrorBoundary>
+						) : (
+							contentToRender
+						)}
+					</div>
+				)}
 			</div>
 		);
 	}
 );
 
-Content.displayName = 'Content';
+ContentComponent.displayName = 'Content';
+
+// memo() drops the generic parameter; restore it so `children` is typed from `load`
+const Content = ContentComponent as typeof ContentComponent &
+	(<T = unknown>(props: ContentProps<T>) => React.ReactElement | null);
 
 export { Content };
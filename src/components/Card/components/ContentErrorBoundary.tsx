@@ -0,0 +1,68 @@
+import React, { ReactNode } from 'react';
+import { Context } from '../../context/pnpjs-config';
+import styles from '../Card.module.scss';
+
+interface ContentErrorBoundaryProps {
+	cardId: string;
+	renderError?: (error: Error, retry: () => void) => ReactNode;
+	children: ReactNode;
+}
+
+interface ContentErrorBoundaryState {
+	error: Error | null;
+	attempt: number;
+}
+
+function reportContentError(cardId: string, error: Error, componentStack?: string): void {
+	try {
+		if (Context.isReady()) {
+			Context.getContext().logger.error(error, { cardId, componentStack }, 'Card');
+		}
+	} catch {
+		/* logging must never break rendering */
+	}
+}
+
+// Keeps a throwing widget inside the card body instead of unmounting the whole web part
+export class ContentErrorBoundary extends React.Component<
+	ContentErrorBoundaryProps,
+	ContentErrorBoundaryState
+> {
+	state: ContentErrorBoundaryState = { error: null, attempt: 0 };
+
+	static getDerivedStateFromError(error: Error): Partial<ContentErrorBoundaryState> {
+		return { error };
+	}
+
+	componentDidCatch(error: Error, info: React.ErrorInfo) {
+		reportContentError(this.props.cardId, error, info.componentStack);
+	}
+
+	// Bumping the key remounts the content so it starts from a clean state
+	private retry = () => {
+		this.setState(({ attempt }) => ({ error: null, attempt: attempt + 1 }));
+	};
+
+	render() {
+		const { error, attempt } = this.state;
+		const { renderError, children } = this.props;
+
+		if (error) {
+			if (renderError) {
+				return renderError(error, this.retry);
+			}
+			return (
+				<div className={styles.contentError} role="alert">
+					<div className={styles.contentErrorMessage}>
+						Something went wrong while displaying this content.
+					</div>
+					<button type="button" className={styles.contentErrorRetry} onClick={this.retry}>
+						Try again
+					</button>
+				</div>
+			);
+		}
+
+		return <React.Fragment key={attempt}>{children}</React.Fragment>;
+	}
+}
@@ -1,4 +1,4 @@
-import React, { memo, useMemo, useCallback } from 'react';
+import React, { memo, useMemo } from 'react';
 import { HeaderProps } from '../Card.types';
 import { useCardContext } from '../CardContext';
 import { ToolbarButtons } from './ToolbarButtons';
@@ -24,13 +24,14 @@ const Header = memo<HeaderProps>(
 			allowExpand,
 			disabled,
 			loading,
-			onToggleExpand,
 			isExpanded,
-			id,
 			headerSize,
 			toolbarActions = [],
 			hideExpandButton = false,
-			accessibility = {},
+			validation,
+			showValidationIndicator,
+			getHeaderProps,
+			getToggleButtonProps,
 		} = useCardContext();
 
 		const effectiveSize = size || headerSize;
@@ -40,7 +41,11 @@ const Header = memo<HeaderProps>(
 				[
 					styles.header,
 					styles[variant],
-					styles[`size${effectiveSize.charAt(0).toUpperCase() + effectiveSize.slice(1)}` as keyof typeof styles],
+					styles[
+						`size${
+							effectiveSize.charAt(0).toUpperCase() + effectiveSize.slice(1)
+						}` as keyof typeof styles
+					],
 					clickable && allowExpand && !disabled ? styles.clickable : '',
 					className,
 				]
@@ -57,56 +62,38 @@ const Header = memo<HeaderProps>(
 			[customHeaderColor, style]
 		);
 
-		const handleClick = useCallback(() => {
-			if (clickable && allowExpand && !disabled) {
-				onToggleExpand();
+		// Errors take precedence over unsaved changes
+		const validationIndicator = useMemo(() => {
+			if (validation.errorCount > 0) {
+				const label = `${validation.errorCount} ${
+					validation.errorCount === 1 ? 'error' : 'errors'
+				}`;
+				return (
+					<span
+						className={`${styles.validationIndicator} ${styles.validationInvalid}`}
+						role="img"
+						aria-label={label}
+						title={label}
+					>
+						{validation.errorCount}
+					</span>
+				);
 			}
-		}, [clickable, allowExpand, disabled, onToggleExpand]);
-
-		const handleKeyDown = useCallback(
-			(e: React.KeyboardEvent) => {
-				if (clickable && allowExpand && !disabled && (e.key === 'Enter' || e.key === ' ')) {
-					e.preventDefault();
-					onToggleExpand();
-				}
-			},
-			[clickable, allowExpand, disabled, onToggleExpand]
-		);
-
-		const handleExpandClick = useCallback(
-			(e: React.MouseEvent) => {
-				e.stopPropagation();
-				if (allowExpand && !disabled) {
-					onToggleExpand();
-				}
-			},
-			[allowExpand, disabled, onToggleExpand]
-		);
-
-		const handleExpandKeyDown = useCallback(
-			(e: React.KeyboardEvent) => {
-				if (e.key === 'Enter' || e.key === ' ') {
-					e.preventDefault();
-					e.stopPropagation();
-					if (allowExpand && !disabled) {
-						onToggleExpand();
-					}
-				}
-			},
-			[allowExpand, disabled, onToggleExpand]
-		);
+			if (validation.isDirty) {
+				return (
+					<span
+						className={`${styles.validationIndicator} ${styles.validationDirty}`}
+						role="img"
+						aria-label="Unsaved changes"
+						title="Unsaved changes"
+					/>
+				);
+			}
+			return null;
+		}, [validation]);
 
 		return (
-			<div
-				className={headerClasses}
-				style={headerStyle}
-				onClick={handleClick}
-				role={clickable && allowExpand ? 'button' : undefined}
-				tabIndex={clickable && allowExpand && !disabled ? 0 : undefined}
-				onKeyDown={handleKeyDown}
-				aria-expanded={allowExpand ? isExpanded : undefined}
-				aria-controls={allowExpand ? `card-content-${id}` : undefined}
-			>
+			<div {...getHeaderProps({ clickable, className: headerClasses, style: headerStyle })}>
 				<div className={styles.headerContent}>
 					{loading && showLoadingShimmer && (
 						<div
@@ -116,6 +103,7 @@ const Header = memo<HeaderProps>(
 						/>
 					)}
 					<div className={styles.headerText}>{children}</div>
+					{showValidationIndicator && validationIndicator}
 				</div>
 
 				<div className={styles.headerActions}>
@@ -126,23 +114,7 @@ const Header = memo<HeaderProps>(
 
 					{/* Expand/Collapse button in top right */}
 					{allowExpand && !hideExpandButton && (
-						<button
-							type="button"
-							className={styles.expandButton}
-							onClick={handleExpandClick}
-							onKeyDown={handleExpandKeyDown}
-							aria-label={
-								isExpanded
-									? accessibility.collapseButtonLabel || 'Collapse card'
-									: accessibility.expandButtonLabel || 'Expand card'
-							}
-							title={
-								isExpanded
-									? accessibility.collapseButtonLabel || 'Collapse card'
-									: accessibility.expandButtonLabel || 'Expand card'
-							}
-							disabled={disabled}
-						>
+						<button {...getToggleButtonProps({ className: styles.expandButton })}>
 							<ChevronDownIcon
 								className={`${styles.expandIcon} ${isExpanded ? styles.expanded : ''}`}
 							/>
@@ -0,0 +1,140 @@
+import React, { memo, ReactNode, useCallback, useEffect, useMemo, useRef } from 'react';
+import { CardTabPanelProps, CardTabsProps } from '../Card.types';
+import { useCardContext } from '../CardContext';
+import styles from '../Card.module.scss';
+
+// Outside Card.Tabs a panel just renders its content
+const TabPanel = memo<CardTabPanelProps>(({ children }) => (
+	<>{typeof children === 'function' ? (children as () => ReactNode)() : children}</>
+));
+
+TabPanel.displayName = 'Card.TabPanel';
+
+const isTabPanel = (child: ReactNode): child is React.ReactElement<CardTabPanelProps> =>
+	React.isValidElement(child) && child.type === TabPanel;
+
+const MOVE_KEYS: { [key: string]: 'previous' | 'next' | 'first' | 'last' } = {
+	ArrowLeft: 'previous',
+	ArrowRight: 'next',
+	Home: 'first',
+	End: 'last',
+};
+
+const Tabs = memo<CardTabsProps>(
+	({ defaultTab, label, onTabChange, className = '', style, children }) => {
+		const { id: cardId, activeTab, selectTab, registerTabs } = useCardContext();
+		const tabRefs = useRef(new Map<string, HTMLButtonElement>());
+		const onTabChangeRef = useRef(onTabChange);
+		onTabChangeRef.current = onTabChange;
+
+		const panels = useMemo(() => React.Children.toArray(children).filter(isTabPanel), [children]);
+		const enabledKey = panels
+			.filter((panel) => !panel.props.disabled)
+			.map((panel) => panel.props.id)
+			.join('\u0000');
+		const enabledIds = useMemo(() => (enabledKey ? enabledKey.split('\u0000') : []), [enabledKey]);
+
+		// A persisted or linked tab that no longer exists falls back to the default
+		const currentId =
+			activeTab && enabledIds.includes(activeTab)
+				? activeTab
+				: defaultTab && enabledIds.includes(defaultTab)
+				? defaultTab
+				: enabledIds[0];
+
+		// Lets cardController.selectTab reject unknown and disabled tabs, and keeps the shown
+		// tab in the card's state
+		useEffect(() => registerTabs(enabledIds, currentId), [registerTabs, enabledIds, currentId]);
+
+		// Panels mount on first activation and stay mounted to keep their state
+		const mountedRef = useRef(new Set<string>());
+		if (currentId) {
+			mountedRef.current.add(currentId);
+		}
+
+		const previousIdRef = useRef(currentId);
+		useEffect(() => {
+			if (previousIdRef.current === currentId) return;
+			previousIdRef.current = currentId;
+			if (currentId) onTabChangeRef.current?.(currentId);
+		}, [currentId]);
+
+		const handleKeyDown = useCallback(
+			(tabId: string, e: React.KeyboardEvent<HTMLButtonElement>) => {
+				const direction = MOVE_KEYS[e.key];
+				if (!direction || enabledIds.length === 0) return;
+				e.preventDefault();
+
+				const index = enabledIds.indexOf(tabId);
+				const count = enabledIds.length;
+				const nextId =
+					direction === 'first'
+						? enabledIds[0]
+						: direction === 'last'
+						? enabledIds[count - 1]
+						: enabledIds[(index + (direction === 'next' ? 1 : count - 1)) % count];
+				selectTab(nextId);
+				tabRefs.current.get(nextId)?.focus();
+			},
+			[enabledIds, selectTab]
+		);
+
+		const tabsClasses = [styles.tabs, className].filter(Boolean).join(' ');
+
+		return (
+			<div className={tabsClasses} style={style}>
+				<div className={styles.tabList} role="tablist" aria-label={label}>
+					{panels.map(({ props: panel }) => {
+						const isActive = panel.id === currentId;
+						return (
+							<button
+								key={panel.id}
+								ref={(element) => {
+									if (element) {
+										tabRefs.current.set(panel.id, element);
+									} else {
+										tabRefs.current.delete(panel.id);
+									}
+								}}
+								type="button"
+								role="tab"
+								id={`card-tab-${cardId}-${panel.id}`}
+								className={[styles.tab, isActive ? styles.activeTab : ''].filter(Boolean).join(' ')}
+								aria-selected={isActive}
+								aria-controls={`card-tabpanel-${cardId}-${panel.id}`}
+								tabIndex={isActive ? 0 : -1}
+								disabled={panel.disabled}
+								onClick={() => selectTab(panel.id)}
+								onKeyDown={(e) => handleKeyDown(panel.id, e)}
+							>
+								{panel.label}
+							</button>
+						);
+					})}
+				</div>
+
+				{panels.map((element) => {
+					const { id, className: panelClassName, style: panelStyle } = element.props;
+					return (
+						<div
+							key={id}
+							id={`card-tabpanel-${cardId}-${id}`}
+							className={[styles.tabPanel, panelClassName].filter(Boolean).join(' ')}
+							style={panelStyle}
+							role="tabpanel"
+							aria-labelledby={`card-tab-${cardId}-${id}`}
+							tabIndex={0}
+							hidden={id !== currentId}
+						>
+							{mountedRef.current.has(id) && element}
+						</div>
+					);
+				})}
+			</div>
+		);
+	}
+);
+
+Tabs.displayName = 'Card.Tabs';
+
+export { Tabs, TabPanel };
@@ -1,7 +1,54 @@
-import { memo, useCallback, useMemo } from 'react';
+import React, {
+	memo,
+	useCallback,
+	useEffect,
+	useLayoutEffect,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
 import styles from '../Card.module.scss';
 import { ToolbarAction, ToolbarButtonsProps } from '../Card.types';
 import { useCardContext } from '../CardContext';
+import { ToolbarOverflowMenu } from './ToolbarOverflowMenu';
+
+const MOBILE_BREAKPOINT = 768;
+const TOOLBAR_GAP = 6;
+const SEPARATOR_WIDTH = 1 + TOOLBAR_GAP;
+const MORE_BUTTON_WIDTH = 28 + TOOLBAR_GAP;
+
+const isMobileViewport = () =>
+	typeof window !== 'undefined' && window.innerWidth <= MOBILE_BREAKPOINT;
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+	!!value && typeof (value as PromiseLike<unknown>).then === 'function';
+
+const getConfirmMessage = (action: ToolbarAction) =>
+	typeof action.confirm === 'string'
+		? action.confirm
+		: `Are you sure you want to ${action.label.toLowerCase()}?`;
+
+// Width left for the toolbar once the title and expand button have their share of the header
+const getAvailableWidth = (container: HTMLElement): number => {
+	const header = container.closest<HTMLElement>(`.${styles.header}`);
+	if (!header) {
+		return container.parentElement?.clientWidth ?? container.clientWidth;
+	}
+
+	const computed = window.getComputedStyle(header);
+	const padding = parseFloat(computed.paddingLeft) + parseFloat(computed.paddingRight);
+	const title = header.querySelector<HTMLElement>(`.${styles.headerText}`);
+	const expandButton = header.querySelector<HTMLElement>(`.${styles.expandButton}`);
+	const titleWidth = title ? Math.min(title.scrollWidth, header.clientWidth * 0.4) : 0;
+
+	return (
+		header.clientWidth -
+		padding -
+		titleWidth -
+		(expandButton ? expandButton.offsetWidth + TOOLBAR_GAP : 0) -
+		TOOLBAR_GAP
+	);
+};
 
 const ToolbarButtons = memo<ToolbarButtonsProps>(
 	({
@@ -11,8 +58,126 @@ const ToolbarButtons = memo<ToolbarButtonsProps>(
 		position = 'left',
 		showTooltips = true,
 		stackOnMobile = false,
+		overflow = true,
+		overflowLabel = 'More actions',
 	}) => {
 		const { onToolbarAction, disabled } = useCardContext();
+		const containerRef = useRef<HTMLDivElement>(null);
+		const widthsRef = useRef(new Map<string, number>());
+		const mountedRef = useRef(true);
+		const [isMobile, setIsMobile] = useState(isMobileViewport);
+		const [visibleCount, setVisibleCount] = useState(actions.length);
+		const [pendingIds, setPendingIds] = useState<string[]>([]);
+
+		// Actions hidden on mobile always live in the overflow menu
+		const candidates = useMemo(
+			() => (isMobile ? actions.filter((action) => !action.hideOnMobile) : actions),
+			[actions, isMobile]
+		);
+
+		const inlineActions = useMemo(
+			() => (overflow ? candidates.slice(0, visibleCount) : candidates),
+			[overflow, candidates, visibleCount]
+		);
+
+		const overflowActions = useMemo(
+			() => (overflow ? actions.filter((action) => !inlineActions.includes(action)) : []),
+			[overflow, actions, inlineActions]
+		);
+
+		const updateLayout = useCallback(() => {
+			const container = containerRef.current;
+			setIsMobile(isMobileViewport());
+			if (!container || !overflow) return;
+
+			const available = getAvailableWidth(container);
+			const hiddenOnMobile = actions.length - candidates.length;
+			let used = 0;
+			let count = 0;
+
+			for (let i = 0; i < candidates.length; i++) {
+				const action = candidates[i];
+				const separator = i > 0 && action.group !== candidates[i - 1].group ? SEPARATOR_WIDTH : 0;
+				const width = (widthsRef.current.get(action.id) ?? 0) + TOOLBAR_GAP + separator;
+				const needsMoreButton = i < candidates.length - 1 || hiddenOnMobile > 0;
+				if (used + width + (needsMoreButton ? MORE_BUTTON_WIDTH : 0) > available) break;
+				used += width;
+				count++;
+			}
+
+			setVisibleCount(count);
+		}, [overflow, actions.length, candidates]);
+
+		// Remember the natural width of each rendered button; overflowed actions keep their last measurement
+		useLayoutEffect(() => {
+			let changed = false;
+			containerRef.current?.querySelectorAll<HTMLElement>('[data-action-id]').forEach((button) => {
+				const actionId = button.dataset.actionId as string;
+				if (widthsRef.current.get(actionId) !== button.offsetWidth) {
+					widthsRef.current.set(actionId, button.offsetWidth);
+					changed = true;
+				}
+			});
+			if (changed) {
+				updateLayout();
+			}
+		});
+
+		useEffect(() => {
+			const container = containerRef.current;
+			if (!container) return;
+
+			updateLayout();
+			if (typeof ResizeObserver === 'undefined') {
+				window.addEventListener('resize', updateLayout);
+				return () => window.removeEventListener('resize', updateLayout);
+			}
+
+			const observer = new ResizeObserver(() => updateLayout());
+			observer.observe(
+				container.closest(`.${styles.header}`) ?? container.parentElement ?? container
+			);
+			return () => observer.disconnect();
+		}, [updateLayout]);
+
+		useEffect(() => {
+			mountedRef.current = true;
+			return () => {
+				mountedRef.current = false;
+			};
+		}, []);
+
+		const runAction = useCallback(
+			(action: ToolbarAction, event: React.MouseEvent) => {
+				if (pendingIds.includes(action.id)) return;
+				if (action.confirm && !window.confirm(getConfirmMessage(action))) {
+					event.stopPropagation();
+					return;
+				}
+
+				const result = onToolbarAction(action, event);
+				if (!isPromiseLike(result)) return;
+
+				setPendingIds((ids) => [...ids, action.id]);
+				Promise.resolve(result)
+					.catch((error) => {
+						console.warn(`Toolbar action "${action.id}" failed:`, error);
+					})
+					.then(() => {
+						if (mountedRef.current) {
+							setPendingIds((ids) => ids.filter((pendingId) => pendingId !== action.id));
+						}
+					});
+			},
+			[onToolbarAction, pendingIds]
+		);
+
+		// Keep Enter/Space on toolbar buttons from toggling the header
+		const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+			if (e.key === 'Enter' || e.key === ' ') {
+				e.stopPropagation();
+			}
+		}, []);
 
 		const toolbarClasses = useMemo(
 			() =>
@@ -31,36 +196,40 @@ const ToolbarButtons = memo<ToolbarButtonsProps>(
 
 		const renderToolbarButton = useCallback(
 			(action: ToolbarAction) => {
+				const isPending = pendingIds.includes(action.id);
 				const buttonClasses = [
 					styles.toolbarButton,
 					action.variant ? styles[action.variant] : styles.default,
-					action.hideOnMobile ? (styles as any).hideOnMobile : '',
 				]
 					.filter(Boolean)
 					.join(' ');
 
-				const isMobile = typeof window !== 'undefined' && window.innerWidth <= 768;
-
 				return (
 					<button
 						key={action.id}
 						type="button"
+						data-action-id={action.id}
 						className={buttonClasses}
-						onClick={(e) => onToolbarAction(action, e)}
-						disabled={action.disabled || disabled}
+						onClick={(e) => runAction(action, e)}
+						disabled={action.disabled || disabled || isPending}
+						aria-busy={isPending || undefined}
 						aria-label={action.ariaLabel || action.label}
 						title={showTooltips ? action.tooltip : undefined}
 					>
-						{action.icon && (
-							<span className="buttonIcon" aria-hidden="true">
-								{isMobile && action.mobileIcon ? action.mobileIcon : action.icon}
-							</span>
+						{isPending ? (
+							<span className={styles.buttonSpinner} aria-hidden="true" />
+						) : (
+							action.icon && (
+								<span className={styles.buttonIcon} aria-hidden="true">
+									{isMobile && action.mobileIcon ? action.mobileIcon : action.icon}
+								</span>
+							)
 						)}
 						<span className={styles.buttonText}>{action.label}</span>
 					</button>
 				);
 			},
-			[onToolbarAction, disabled, showTooltips]
+			[runAction, pendingIds, disabled, showTooltips, isMobile]
 		);
 
 		if (actions.length === 0) {
@@ -68,8 +237,30 @@ const ToolbarButtons = memo<ToolbarButtonsProps>(
 		}
 
 		return (
-			<div className={toolbarClasses} style={style}>
-				{actions.map(renderToolbarButton)}
+			<div ref={containerRef} className={toolbarClasses} style={style} onKeyDown={handleKeyDown}>
+				{inlineActions.map((action, index) => (
+					<React.Fragment key={action.id}>
+						{index > 0 && action.group !== inlineActions[index - 1].group && (
+							<span
+								className={styles.toolbarSeparator}
+								role="separator"
+								aria-orientation="vertical"
+							/>
+						)}
+						{renderToolbarButton(action)}
+					</React.Fragment>
+				))}
+				{overflowActions.length > 0 && (
+					<ToolbarOverflowMenu
+						actions={overflowActions}
+						label={overflowLabel}
+						disabled={disabled}
+						pendingIds={pendingIds}
+						isMobile={isMobile}
+						showTooltips={showTooltips}
+						onAction={runAction}
+					/>
+				)}
 			</div>
 		);
 	}
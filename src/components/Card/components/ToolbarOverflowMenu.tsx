@@ -0,0 +1,259 @@
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import styles from '../Card.module.scss';
+import { ToolbarAction } from '../Card.types';
+import { useCardContext } from '../CardContext';
+
+interface ToolbarOverflowMenuProps {
+	actions: ToolbarAction[];
+	label: string;
+	disabled: boolean;
+	pendingIds: string[];
+	isMobile: boolean;
+	showTooltips: boolean;
+	onAction: (action: ToolbarAction, event: React.MouseEvent) => void;
+}
+
+// More Icon - Memoized for performance
+const MoreIcon = memo<{ className?: string }>(({ className }) => (
+	<svg className={className} fill="currentColor" viewBox="0 0 16 16" aria-hidden="true">
+		<path d="M3 9.5a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3zm5 0a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3zm5 0a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3z" />
+	</svg>
+));
+
+MoreIcon.displayName = 'MoreIcon';
+
+// ARIA menu button; the menu is portalled so the card's overflow: hidden does not clip it
+const ToolbarOverflowMenu = memo<ToolbarOverflowMenuProps>(
+	({ actions, label, disabled, pendingIds, isMobile, showTooltips, onAction }) => {
+		const { id } = useCardContext();
+		const [isOpen, setIsOpen] = useState(false);
+		const [position, setPosition] = useState<{ top: number; right: number }>();
+		const triggerRef = useRef<HTMLButtonElement>(null);
+		const menuRef = useRef<HTMLUListElement>(null);
+		const initialFocusRef = useRef<'first' | 'last'>('first');
+		const menuId = `card-toolbar-menu-${id}`;
+
+		const getItems = useCallback(
+			() =>
+				Array.from(
+					menuRef.current?.querySelectorAll<HTMLButtonElement>(
+						'[role="menuitem"]:not(:disabled)'
+					) ?? []
+				),
+			[]
+		);
+
+		const focusItem = useCallback(
+			(index: number) => {
+				const items = getItems();
+				if (items.length === 0) return;
+				items[((index % items.length) + items.length) % items.length].focus();
+			},
+			[getItems]
+		);
+
+		const open = useCallback((focus: 'first' | 'last') => {
+			const rect = triggerRef.current?.getBoundingClientRect();
+			if (rect) {
+				setPosition({ top: rect.bottom + 4, right: window.innerWidth - rect.right });
+			}
+			initialFocusRef.current = focus;
+			setIsOpen(true);
+		}, []);
+
+		const close = useCallback((restoreFocus: boolean) => {
+			setIsOpen(false);
+			if (restoreFocus) {
+				triggerRef.current?.focus();
+			}
+		}, []);
+
+		// Move focus into the menu once it is rendered
+		useEffect(() => {
+			if (isOpen) {
+				focusItem(initialFocusRef.current === 'first' ? 0 : -1);
+			}
+		}, [isOpen, focusItem]);
+
+		// Close on outside click, scroll and resize (the menu is positioned against the viewport)
+		useEffect(() => {
+			if (!isOpen) return;
+
+			const handlePointerDown = (e: MouseEvent) => {
+				const target = e.target as Node;
+				if (!menuRef.current?.contains(target) && !triggerRef.current?.contains(target)) {
+					setIsOpen(false);
+				}
+			};
+			const handleViewportChange = (e: Event) => {
+				if (e.target instanceof Node && menuRef.current?.contains(e.target)) return;
+				setIsOpen(false);
+			};
+
+			document.addEventListener('mousedown', handlePointerDown);
+			window.addEventListener('scroll', handleViewportChange, true);
+			window.addEventListener('resize', handleViewportChange);
+			return () => {
+				document.removeEventListener('mousedown', handlePointerDown);
+				window.removeEventListener('scroll', handleViewportChange, true);
+				window.removeEventListener('resize', handleViewportChange);
+			};
+		}, [isOpen]);
+
+		const handleTriggerClick = useCallback(
+			(e: React.MouseEvent) => {
+				e.stopPropagation();
+				if (isOpen) {
+					close(false);
+				} else {
+					open('first');
+				}
+			},
+			[isOpen, open, close]
+		);
+
+		const handleTriggerKeyDown = useCallback(
+			(e: React.KeyboardEvent) => {
+				switch (e.key) {
+					case 'Enter':
+					case ' ':
+					case 'ArrowDown':
+						open('first');
+						break;
+					case 'ArrowUp':
+						open('last');
+						break;
+					default:
+						return;
+				}
+				e.preventDefault();
+				e.stopPropagation();
+			},
+			[open]
+		);
+
+		const handleMenuKeyDown = useCallback(
+			(e: React.KeyboardEvent) => {
+				const items = getItems();
+				const index = items.indexOf(document.activeElement as HTMLButtonElement);
+
+				switch (e.key) {
+					case 'ArrowDown':
+						focusItem(index + 1);
+						break;
+					case 'ArrowUp':
+						focusItem(index < 0 ? -1 : index - 1);
+						break;
+					case 'Home':
+						focusItem(0);
+						break;
+					case 'End':
+						focusItem(-1);
+						break;
+					case 'Escape':
+						close(true);
+						break;
+					case 'Tab':
+						setIsOpen(false);
+						return;
+					default:
+						// Let Enter/Space activate the item, but keep them away from the header
+						e.stopPropagation();
+						return;
+				}
+				e.preventDefault();
+				e.stopPropagation();
+			},
+			[getItems, focusItem, close]
+		);
+
+		const handleItemClick = useCallback(
+			(action: ToolbarAction, e: React.MouseEvent) => {
+				close(true);
+				onAction(action, e);
+			},
+			[close, onAction]
+		);
+
+		const menu = isOpen && (
+			<ul
+				ref={menuRef}
+				id={menuId}
+				role="menu"
+				aria-label={label}
+				className={styles.overflowMenu}
+				style={position}
+				onKeyDown={handleMenuKeyDown}
+				onClick={(e) => e.stopPropagation()}
+			>
+				{actions.map((action, index) => {
+					const isPending = pendingIds.includes(action.id);
+					const itemClasses = [
+						styles.overflowMenuItem,
+						action.variant === 'danger' ? styles.danger : '',
+					]
+						.filter(Boolean)
+						.join(' ');
+
+					return (
+						<React.Fragment key={action.id}>
+							{index > 0 && action.group !== actions[index - 1].group && (
+								<li role="separator" className={styles.overflowMenuSeparator} />
+							)}
+							<li role="none">
+								<button
+									type="button"
+									role="menuitem"
+									tabIndex={-1}
+									className={itemClasses}
+									onClick={(e) => handleItemClick(action, e)}
+									disabled={action.disabled || disabled || isPending}
+									aria-busy={isPending || undefined}
+									aria-label={action.ariaLabel}
+									title={showTooltips ? action.tooltip : undefined}
+								>
+									{isPending ? (
+										<span className={styles.buttonSpinner} aria-hidden="true" />
+									) : (
+										action.icon && (
+											<span className={styles.buttonIcon} aria-hidden="true">
+												{isMobile && action.mobileIcon ? action.mobileIcon : action.icon}
+											</span>
+										)
+									)}
+									<span className={styles.buttonText}>{action.label}</span>
+								</button>
+							</li>
+						</React.Fragment>
+					);
+				})}
+			</ul>
+		);
+
+		return (
+			<>
+				<button
+					ref={triggerRef}
+					type="button"
+					className={`${styles.toolbarButton} ${styles.default} ${styles.moreButton}`}
+					onClick={handleTriggerClick}
+					onKeyDown={handleTriggerKeyDown}
+					aria-label={label}
+					title={showTooltips ? label : undefined}
+					aria-haspopup="menu"
+					aria-expanded={isOpen}
+					aria-controls={isOpen ? menuId : undefined}
+					disabled={disabled}
+				>
+					<MoreIcon className={styles.moreIcon} />
+				</button>
+				{menu && typeof document !== 'undefined' && createPortal(menu, document.body)}
+			</>
+		);
+	}
+);
+
+ToolbarOverflowMenu.displayName = 'ToolbarOverflowMenu';
+
+export { ToolbarOverflowMenu };
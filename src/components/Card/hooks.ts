@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import {
+	CardBatchOperation,
+	CardBatchOptions,
+	CardControllerEvent,
+	CardControllerEventHandler,
+	CardControllerEventType,
+	CardFocusDirection,
+	CardScrollOptions,
+	CardSyncOptions,
+	CardSnapshot,
+	CardState,
+} from './Card.types';
+import { CardController } from './CardController';
+import { useCardControllerInstance } from './CardControllerProvider';
+
+type StoreSubscribe = (onStoreChange: () => void) => () => void;
+
+// React 17 (SPFx) has no useSyncExternalStore; this fallback re-checks the snapshot on every store change
+function useSyncExternalStoreFallback<T>(subscribe: StoreSubscribe, getSnapshot: () => T): T {
+	const value = getSnapshot();
+	const [, forceRender] = useReducer((count: number) => count + 1, 0);
+	const latestRef = useRef({ value, getSnapshot });
+	latestRef.current = { value, getSnapshot };
+
+	useEffect(() => {
+		const checkForUpdates = () => {
+			const { value: current, getSnapshot: read } = latestRef.current;
+			if (!Object.is(read(), current)) {
+				forceRender();
+			}
+		};
+		// The store may have changed between render and subscription
+		checkForUpdates();
+		return subscribe(checkForUpdates);
+	}, [subscribe]);
+
+	return value;
+}
+
+const useSyncExternalStore: <T>(subscribe: StoreSubscribe, getSnapshot: () => T) => T =
+	(React as any).useSyncExternalStore ?? useSyncExternalStoreFallback;
+
+const sameCardState = (a: CardState | null, b: CardState | null) =>
+	a === b ||
+	(!!a &&
+		!!b &&
+		a.id === b.id &&
+		a.isExpanded === b.isExpanded &&
+		a.hasContentLoaded === b.hasContentLoaded &&
+		a.validation === b.validation &&
+		a.parentId === b.parentId &&
+		a.activeTab === b.activeTab);
+
+const sameIds = (a: string[], b: string[]) =>
+	a.length === b.length && a.every((id, index) => id === b[index]);
+
+const sameCardStates = (a: CardState[], b: CardState[]) =>
+	a.length === b.length && a.every((state, index) => sameCardState(state, b[index]));
+
+/**
+ * Reads a value from the controller registry and re-renders when it changes.
+ * Results are cached per controller version so the snapshot stays referentially stable.
+ */
+function useControllerSnapshot<T>(
+	key: string,
+	select: (controller: CardController) => T,
+	isEqual: (a: T, b: T) => boolean
+): T {
+	const controller = useCardControllerInstance();
+	const selectRef = useRef(select);
+	selectRef.current = select;
+	const cacheRef = useRef<{ controller: CardController; key: string; version: number; value: T }>();
+
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => controller.on('*', () => onStoreChange()),
+		[controller]
+	);
+
+	const getSnapshot = useCallback(() => {
+		const version = controller.getVersion();
+		const cached = cacheRef.current;
+		const sameSource = !!cached && cached.controller === controller && cached.key === key;
+		if (sameSource && cached!.version === version) {
+			return cached!.value;
+		}
+
+		const next = selectRef.current(controller);
+		const value = sameSource && isEqual(cached!.value, next) ? cached!.value : next;
+		cacheRef.current = { controller, key, version, value };
+		return value;
+	}, [controller, key, isEqual]);
+
+	return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/** Imperative controller operations, bound to the nearest CardControllerProvider */
+export const useCardController = () => {
+	const cardController = useCardControllerInstance();
+
+	return useMemo(
+		() => ({
+			expandAll: (highlight?: boolean) => cardController.expandAll(highlight),
+			collapseAll: (highlight?: boolean) => cardController.collapseAll(highlight),
+			expandGroup: (groupId: string, highlight?: boolean) =>
+				cardController.expandGroup(groupId, highlight),
+			collapseGroup: (groupId: string, highlight?: boolean) =>
+				cardController.collapseGroup(groupId, highlight),
+			getCardsByGroup: (groupId: string) => cardController.getCardsByGroup(groupId),
+			toggleCard: (id: string, highlight?: boolean) => cardController.toggleCard(id, highlight),
+			expandCard: (id: string, highlight?: boolean) => cardController.expandCard(id, highlight),
+			collapseCard: (id: string, highlight?: boolean) => cardController.collapseCard(id, highlight),
+			toggleCardAsync: (id: string, highlight?: boolean) =>
+				cardController.toggleCardAsync(id, highlight),
+			expandCardAsync: (id: string, highlight?: boolean) =>
+				cardController.expandCardAsync(id, highlight),
+			collapseCardAsync: (id: string, highlight?: boolean) =>
+				cardController.collapseCardAsync(id, highlight),
+			getParent: (id: string) => cardController.getParent(id),
+			getChildren: (id: string) => cardController.getChildren(id),
+			getAncestors: (id: string) => cardController.getAncestors(id),
+			collapseDescendants: (id: string, highlight?: boolean) =>
+				cardController.collapseDescendants(id, highlight),
+			highlightCard: (id: string) => cardController.highlightCard(id),
+			scrollToCard: (id: string, options?: CardScrollOptions) =>
+				cardController.scrollToCard(id, options),
+			revealCard: (path: string | string[], options?: CardScrollOptions) =>
+				cardController.revealCard(path, options),
+			focusCard: (id: string) => cardController.focusCard(id),
+			focusSiblingCard: (id: string, direction: CardFocusDirection) =>
+				cardController.focusSiblingCard(id, direction),
+			refreshCard: (id: string) => cardController.refreshCard(id),
+			selectTab: (id: string, tabId: string) => cardController.selectTab(id, tabId),
+			getActiveTab: (id: string) => cardController.getActiveTab(id),
+			enableSync: (options?: CardSyncOptions) => cardController.enableSync(options),
+			disableSync: () => cardController.disableSync(),
+			isSyncEnabled: () => cardController.isSyncEnabled(),
+			preparePrint: () => cardController.preparePrint(),
+			print: () => cardController.print(),
+			endPrint: () => cardController.endPrint(),
+			isPrinting: () => cardController.isPrinting(),
+			getCardStates: () => cardController.getCardStates(),
+			getCardState: (id: string) => cardController.getCardState(id),
+			isCardExpanded: (id: string) => cardController.isCardExpanded(id),
+			isCardAnimating: (id: string) => cardController.isCardAnimating(id),
+			waitForAnimation: (id: string) => cardController.waitForAnimation(id),
+			isCardRegistered: (id: string) => cardController.isCardRegistered(id),
+			getExpandedCards: () => cardController.getExpandedCards(),
+			getCollapsedCards: () => cardController.getCollapsedCards(),
+			getCardValidation: (id: string) => cardController.getCardValidation(id),
+			getInvalidCards: () => cardController.getInvalidCards(),
+			getDirtyCards: () => cardController.getDirtyCards(),
+			getRegisteredCardIds: () => cardController.getRegisteredCardIds(),
+			getCardCount: () => cardController.getCardCount(),
+			getExpandedCardCount: () => cardController.getExpandedCardCount(),
+			on: <K extends CardControllerEventType>(type: K, handler: CardControllerEventHandler<K>) =>
+				cardController.on(type, handler),
+			onAny: (handler: (event: CardControllerEvent) => void) => cardController.on('*', handler),
+			/** @deprecated Use on(eventType, handler) */
+			subscribe: (cardId: string, callback: (action: string, data?: any) => void) =>
+				cardController.subscribe(cardId, callback),
+			/** @deprecated Use onAny(handler) */
+			subscribeGlobal: (callback: (action: string, cardId: string, data?: any) => void) =>
+				cardController.subscribeGlobal(callback),
+			batchOperation: (
+				operations: CardBatchOperation[],
+				highlight?: boolean,
+				options?: CardBatchOptions
+			) => cardController.batchOperation(operations, highlight, options),
+			snapshot: () => cardController.snapshot(),
+			restore: (snapshot: CardSnapshot, highlight?: boolean) =>
+				cardController.restore(snapshot, highlight),
+		}),
+		[cardController]
+	);
+};
+
+/** Live state of one card; null while the card is not registered */
+export const useCardState = (id: string): CardState | null => {
+	const select = useCallback((controller: CardController) => controller.getCardState(id), [id]);
+	return useControllerSnapshot(`state:${id}`, select, sameCardState);
+};
+
+/** Live state of every registered card */
+export const useCardStates = (): CardState[] => {
+	return useControllerSnapshot(
+		'states',
+		(controller) => controller.getCardStates(),
+		sameCardStates
+	);
+};
+
+/** Ids of the currently expanded cards */
+export const useExpandedCards = (): string[] => {
+	return useControllerSnapshot('expanded', (controller) => controller.getExpandedCards(), sameIds);
+};
+
+/**
+ * Subscribes to typed controller events for the lifetime of the component.
+ * Pass a cardId to only receive events that target that card.
+ */
+export function useCardEvents<K extends CardControllerEventType>(
+	type: K,
+	handler: CardControllerEventHandler<K>,
+	cardId?: string
+): void;
+export function useCardEvents(
+	type: '*',
+	handler: (event: CardControllerEvent) => void,
+	cardId?: string
+): void;
+export function useCardEvents(
+	type: CardControllerEventType | '*',
+	handler: (event: any) => void,
+	cardId?: string
+): void {
+	const controller = useCardControllerInstance();
+	const handlerRef = useRef(handler);
+	handlerRef.current = handler;
+
+	useEffect(() => {
+		const listener = (event: CardControllerEvent) => {
+			if (cardId && (!('cardId' in event) || event.cardId !== cardId)) return;
+			handlerRef.current(event);
+		};
+		return type === '*' ? controller.on('*', listener) : controller.on(type, listener);
+	}, [controller, type, cardId]);
+}
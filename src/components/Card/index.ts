@@ -1,5 +1,3 @@
-import { useMemo } from 'react';
-
 export { Card } from './Card';
 export { Content } from './components/Content';
 export { Footer } from './components/Footer';
@@ -10,48 +8,35 @@ export { ToolbarButtons } from './components/ToolbarButtons';
 export { CardContext, useCardContext } from './CardContext';
 
 // Controller and utilities
-export { cardController, CardControllerComponent, withCardController } from './CardController';
+export {
+	cardController, CardController, CardControllerComponent, withCardController
+} from './CardController';
+export { CardControllerProvider, useCardControllerInstance } from './CardControllerProvider';
+export type { CardControllerProviderProps } from './CardControllerProvider';
+export {
+	CardDeepLinkListener, parseCardDeepLink, parseCardTabDeepLink, useCardDeepLink
+} from './CardDeepLink';
+export type { CardDeepLinkOptions } from './CardDeepLink';
+export { CardInspector, isCardInspectorEnabled } from './CardInspector';
+export type { CardInspectorProps } from './CardInspector';
+export { getCardThemeVariables, useCardTheme } from './CardTheme';
+
+// Hooks for functional components
+export {
+	useCardController, useCardEvents, useCardState, useCardStates, useExpandedCards
+} from './hooks';
+export { useCard } from './useCard';
 
 // Types
 export type {
-	CardContextType, CardEventData, CardEventType, CardProps, CardState,
-	CardVariant, ContentProps,
-	FooterProps, HeaderProps, HeaderSize, ToolbarAction, ToolbarButtonsProps
+	CardBatchOperation, CardBatchOptions, CardContextType, CardControllerEvent,
+	CardControllerEventHandler, CardControllerEventOf, CardControllerEventType, CardEventData,
+	CardEventType, CardFocusDirection, CardHeaderPropsOptions, CardPersistMode, CardProps,
+	CardRegistrationOptions, CardScrollOptions, CardSnapshot, CardState, CardSyncOptions,
+	CardTabPanelProps, CardTabsProps, CardTransitionGuard, CardValidationState, CardVariant,
+	ContentProps, FooterProps, HeaderProps, HeaderSize, ToolbarAction, ToolbarButtonsProps,
+	UseCardOptions, UseCardResult
 } from './Card.types';
 
 // Import WithCardControllerProps from the controller file, not types
 export type { WithCardControllerProps } from './CardController';
-
-// Hooks for functional components
-import { cardController } from './CardController';
-
-export const useCardController = () => {
-	return useMemo(
-		() => ({
-			expandAll: (highlight?: boolean) => cardController.expandAll(highlight),
-			collapseAll: (highlight?: boolean) => cardController.collapseAll(highlight),
-			toggleCard: (id: string, highlight?: boolean) => cardController.toggleCard(id, highlight),
-			expandCard: (id: string, highlight?: boolean) => cardController.expandCard(id, highlight),
-			collapseCard: (id: string, highlight?: boolean) => cardController.collapseCard(id, highlight),
-			highlightCard: (id: string) => cardController.highlightCard(id),
-			getCardStates: () => cardController.getCardStates(),
-			getCardState: (id: string) => cardController.getCardState(id),
-			isCardExpanded: (id: string) => cardController.isCardExpanded(id),
-			isCardRegistered: (id: string) => cardController.isCardRegistered(id),
-			getExpandedCards: () => cardController.getExpandedCards(),
-			getCollapsedCards: () => cardController.getCollapsedCards(),
-			getRegisteredCardIds: () => cardController.getRegisteredCardIds(),
-			getCardCount: () => cardController.getCardCount(),
-			getExpandedCardCount: () => cardController.getExpandedCardCount(),
-			subscribe: (cardId: string, callback: (action: string, data?: any) => void) =>
-				cardController.subscribe(cardId, callback),
-			subscribeGlobal: (callback: (action: string, cardId: string, data?: any) => void) =>
-				cardController.subscribeGlobal(callback),
-			batchOperation: (
-				operations: Array<{ cardId: string; action: 'expand' | 'collapse' | 'toggle' }>,
-				highlight?: boolean
-			) => cardController.batchOperation(operations, highlight),
-		}),
-		[]
-	);
-};
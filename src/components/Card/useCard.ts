@@ -0,0 +1,663 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import {
+	CardEventData,
+	CardFocusDirection,
+	CardHeaderPropsOptions,
+	CardTransitionGuard,
+	CardValidationState,
+	UseCardOptions,
+	UseCardResult,
+} from './Card.types';
+import { CardContext } from './CardContext';
+import type { CardController } from './CardController';
+import { useCardControllerInstance } from './CardControllerProvider';
+import { readPersistedCard, resolvePersistMode, writePersistedCard } from './CardPersistence';
+import { fieldController } from '../Field/FieldController';
+
+// Performance utilities
+const useDebounce = (callback: () => void, delay: number) => {
+	const timeoutRef = useRef<NodeJS.Timeout>();
+
+	return useCallback(() => {
+		if (timeoutRef.current) {
+			clearTimeout(timeoutRef.current);
+		}
+		timeoutRef.current = setTimeout(callback, delay);
+	}, [callback, delay]);
+};
+
+const useMemoizedCallback = <T extends (...args: any[]) => any>(callback: T, deps: any[]): T => {
+	return useCallback(callback, deps);
+};
+
+// WAI-ARIA accordion keys for moving between sibling card headers
+const NAVIGATION_KEYS: { [key: string]: CardFocusDirection } = {
+	ArrowDown: 'next',
+	ArrowUp: 'previous',
+	Home: 'first',
+	End: 'last',
+};
+
+const FIELD_STATUS_ACTIONS = ['register', 'unregister', 'statusChange', 'clearAll'];
+
+// Summarizes the Fields registered under a card, including those of its nested cards
+const getCardValidation = (controller: CardController, cardId: string): CardValidationState => {
+	const summary = fieldController.getFieldStatusByCard(cardId, controller);
+	let { errorCount, invalidCount, dirtyCount } = summary;
+	controller.getChildren(cardId).forEach((childId) => {
+		const child = controller.getCardValidation(childId);
+		if (child) {
+			errorCount += child.errorCount;
+			invalidCount += child.invalidFieldCount;
+			dirtyCount += child.dirtyFieldCount;
+		}
+	});
+	return {
+		isValid: invalidCount === 0,
+		isDirty: dirtyCount > 0,
+		errorCount,
+		invalidFieldCount: invalidCount,
+		dirtyFieldCount: dirtyCount,
+	};
+};
+
+const sameValidation = (a: CardValidationState, b: CardValidationState) =>
+	a.errorCount === b.errorCount &&
+	a.invalidFieldCount === b.invalidFieldCount &&
+	a.dirtyFieldCount === b.dirtyFieldCount;
+
+// Applies a transition unless the guard vetoes it; async guards resolve to whether it was applied
+const runGuard = (
+	guard: CardTransitionGuard | undefined,
+	data: CardEventData,
+	apply: () => boolean
+): boolean | Promise<boolean> => {
+	if (!guard) return apply();
+
+	let verdict: boolean | Promise<boolean>;
+	try {
+		verdict = guard(data);
+	} catch (error) {
+		console.warn(`Transition guard for card ${data.cardId} failed:`, error);
+		return false;
+	}
+	if (typeof verdict === 'boolean') {
+		return verdict && apply();
+	}
+	// A rejected guard, or a callback throwing while the transition is applied, counts as vetoed
+	return Promise.resolve(verdict)
+		.then((allowed) => allowed && apply())
+		.catch((error) => {
+			console.warn(`Transition guard for card ${data.cardId} failed:`, error);
+			return false;
+		});
+};
+
+// Runs the consumer's handler first; calling preventDefault() in it skips the card's handling
+const composeHandlers =
+	<E extends React.SyntheticEvent>(
+		theirs: ((event: E) => void) | undefined,
+		ours: (event: E) => void
+	) =>
+	(event: E) => {
+		theirs?.(event);
+		if (!event.defaultPrevented) ours(event);
+	};
+
+/**
+ * Headless card behaviour: expanded state, lazy loading, persistence, guards, validation
+ * aggregation and controller registration. Spread the prop getters onto your own markup.
+ */
+export const useCard = ({
+	id,
+	groupId,
+	tags,
+	cascadeCollapse = false,
+	defaultExpanded = false,
+	allowExpand = true,
+	disabled = false,
+	loading = false,
+	lazyLoad = false,
+	persistState,
+	highlightOnProgrammaticChange = true,
+	highlightDuration = 600,
+	onBeforeExpand,
+	onBeforeCollapse,
+	onExpand,
+	onCollapse,
+	onDataLoaded,
+	onContentLoad,
+	onCardEvent,
+	accessibility = {},
+	performance = {},
+}: UseCardOptions): UseCardResult => {
+	const controller = useCardControllerInstance();
+	// Card calls this hook outside its own provider, so the context is the enclosing card's
+	const parentId = useContext(CardContext)?.id;
+	const persistMode = resolvePersistMode(persistState);
+	const [persisted] = useState(() =>
+		persistMode ? readPersistedCard(id, persistMode) : undefined
+	);
+	const [isExpanded, setIsExpanded] = useState(persisted ? persisted.isExpanded : defaultExpanded);
+	const [activeTab, setActiveTab] = useState(persisted?.activeTab);
+	const [hasContentLoaded, setHasContentLoaded] = useState(!lazyLoad || isExpanded);
+	const [hasDataLoaded, setHasDataLoaded] = useState(false);
+	const [isHighlighted, setIsHighlighted] = useState(false);
+	const [isNearViewport, setIsNearViewport] = useState(
+		() => typeof IntersectionObserver === 'undefined'
+	);
+	const [isPrinting, setIsPrinting] = useState(() => controller.isPrinting());
+	const [validation, setValidation] = useState(() => getCardValidation(controller, id));
+	const validationRef = useRef(validation);
+	validationRef.current = validation;
+	// Compare tags by value so inline arrays do not re-register the card every render
+	const tagsRef = useRef(tags);
+	tagsRef.current = tags;
+	const tagsKey = (tags ?? []).join('\u0000');
+
+	const previousLoadingRef = useRef(loading);
+	const cardRef = useRef<HTMLDivElement>(null);
+	const highlightTimeoutRef = useRef<NodeJS.Timeout>();
+	const toggleSourceRef = useRef<'user' | 'programmatic'>('user');
+	// Async guards resolve after re-renders, so they check the latest state rather than a closure
+	const isExpandedRef = useRef(isExpanded);
+	isExpandedRef.current = isExpanded;
+	const pendingGuardRef = useRef(false);
+	const activeTabRef = useRef(activeTab);
+	activeTabRef.current = activeTab;
+	// Enabled tab ids of the card's Card.Tabs, once it has mounted
+	const tabIdsRef = useRef<string[]>();
+	// Tab requested (deep link, restore) before Card.Tabs mounted, e.g. in lazy content
+	const requestedTabRef = useRef<string>();
+
+	const headerId = `card-header-${id}`;
+	const contentId = `card-content-${id}`;
+	const { virtualizeContent = false, preloadThreshold, debounceToggle } = performance;
+	const shouldPreload = lazyLoad && preloadThreshold !== undefined;
+
+	// Track whether the card is within preloadThreshold pixels of the viewport
+	useEffect(() => {
+		const element = cardRef.current;
+		if (!element || (!virtualizeContent && !shouldPreload)) return;
+		if (typeof IntersectionObserver === 'undefined') return;
+
+		const observer = new IntersectionObserver(
+			(entries) => setIsNearViewport(entries.some((entry) => entry.isIntersecting)),
+			{ rootMargin: `${preloadThreshold ?? 0}px 0px` }
+		);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [virtualizeContent, shouldPreload, preloadThreshold]);
+
+	// Preload lazy content before the user expands the card
+	useEffect(() => {
+		if (shouldPreload && isNearViewport && !hasContentLoaded) {
+			setHasContentLoaded(true);
+		}
+	}, [shouldPreload, isNearViewport, hasContentLoaded]);
+
+	// Print mode only changes what is rendered; the card's own expanded state is left alone
+	useEffect(() => {
+		setIsPrinting(controller.isPrinting());
+		const unsubscribeStart = controller.on('printStart', () => setIsPrinting(true));
+		const unsubscribeEnd = controller.on('printEnd', () => setIsPrinting(false));
+		return () => {
+			unsubscribeStart();
+			unsubscribeEnd();
+		};
+	}, [controller]);
+
+	// Keep lazy content that was rendered for printing
+	useEffect(() => {
+		if (isPrinting && !hasContentLoaded) {
+			setHasContentLoaded(true);
+		}
+	}, [isPrinting, hasContentLoaded]);
+
+	// Highlight function
+	const highlightCard = useCallback(() => {
+		if (!highlightOnProgrammaticChange) return;
+
+		setIsHighlighted(true);
+
+		if (highlightTimeoutRef.current) {
+			clearTimeout(highlightTimeoutRef.current);
+		}
+
+		highlightTimeoutRef.current = setTimeout(() => {
+			setIsHighlighted(false);
+		}, highlightDuration);
+	}, [highlightOnProgrammaticChange, highlightDuration]);
+
+	// Memoized expand/collapse functions; they resolve to false when not applied or vetoed
+	const expandFn = useMemoizedCallback(
+		(source: 'user' | 'programmatic' = 'programmatic'): boolean | Promise<boolean> => {
+			if (isExpanded || !allowExpand || disabled || pendingGuardRef.current) return false;
+
+			const eventData: CardEventData = {
+				cardId: id,
+				isExpanded: true,
+				timestamp: Date.now(),
+				source,
+			};
+			const result = runGuard(onBeforeExpand, eventData, () => {
+				if (isExpandedRef.current) return false;
+				isExpandedRef.current = true;
+				toggleSourceRef.current = source;
+				setIsExpanded(true);
+				if (lazyLoad && !hasContentLoaded) {
+					setHasContentLoaded(true);
+				}
+				if (source === 'user') controller.notifyUserTransition(id, true);
+				onExpand?.(eventData);
+				onCardEvent?.('expand', eventData);
+				return true;
+			});
+			if (typeof result !== 'boolean') {
+				pendingGuardRef.current = true;
+				result.finally(() => (pendingGuardRef.current = false));
+			}
+			return result;
+		},
+		[
+			controller,
+			isExpanded,
+			allowExpand,
+			disabled,
+			lazyLoad,
+			hasContentLoaded,
+			id,
+			onBeforeExpand,
+			onExpand,
+			onCardEvent,
+		]
+	);
+
+	const collapseFn = useMemoizedCallback(
+		(source: 'user' | 'programmatic' = 'programmatic'): boolean | Promise<boolean> => {
+			if (!isExpanded || !allowExpand || disabled || pendingGuardRef.current) return false;
+
+			const eventData: CardEventData = {
+				cardId: id,
+				isExpanded: false,
+				timestamp: Date.now(),
+				source,
+			};
+			const result = runGuard(onBeforeCollapse, eventData, () => {
+				if (!isExpandedRef.current) return false;
+				isExpandedRef.current = false;
+				toggleSourceRef.current = source;
+				setIsExpanded(false);
+				if (source === 'user') controller.notifyUserTransition(id, false);
+				onCollapse?.(eventData);
+				onCardEvent?.('collapse', eventData);
+				return true;
+			});
+			if (typeof result !== 'boolean') {
+				pendingGuardRef.current = true;
+				result.finally(() => (pendingGuardRef.current = false));
+			}
+			return result;
+		},
+		[controller, isExpanded, allowExpand, disabled, id, onBeforeCollapse, onCollapse, onCardEvent]
+	);
+
+	const toggleFn = useMemoizedCallback(
+		(source: 'user' | 'programmatic' = 'programmatic') =>
+			isExpanded ? collapseFn(source) : expandFn(source),
+		[isExpanded, expandFn, collapseFn]
+	);
+
+	// Applied by cardController.selectTab, which emits the tabChange event
+	const selectTabFn = useCallback((tabId: string) => {
+		if (!tabIdsRef.current) {
+			requestedTabRef.current = tabId;
+			return false;
+		}
+		if (!tabIdsRef.current.includes(tabId) || tabId === activeTabRef.current) return false;
+
+		activeTabRef.current = tabId;
+		setActiveTab(tabId);
+		return true;
+	}, []);
+
+	// Card.Tabs reports its enabled tabs and the tab it shows, e.g. the default one
+	const registerTabs = useCallback(
+		(tabIds: string[], currentTabId?: string) => {
+			tabIdsRef.current = tabIds;
+			const requestedTabId = requestedTabRef.current;
+			requestedTabRef.current = undefined;
+			const tabId =
+				requestedTabId && tabIds.includes(requestedTabId) ? requestedTabId : currentTabId;
+			if (tabId && tabId !== activeTabRef.current) {
+				// Before the card registers, the registration picks the tab up from activeTabRef
+				if (!controller.selectTab(id, tabId)) {
+					activeTabRef.current = tabId;
+					setActiveTab(tabId);
+				}
+			}
+			return () => {
+				if (tabIdsRef.current === tabIds) tabIdsRef.current = undefined;
+			};
+		},
+		[controller, id]
+	);
+
+	const selectTab = useCallback(
+		(tabId: string) => controller.selectTab(id, tabId),
+		[controller, id]
+	);
+
+	// Focus this card's own header (not one of a nested card), falling back to its toggle button
+	const focusHeader = useCallback(() => {
+		const card = cardRef.current;
+		if (!card) return false;
+
+		const header = Array.from(card.querySelectorAll<HTMLElement>('[data-card-header]')).find(
+			(element) => element.closest('[data-card-id]') === card
+		);
+		const target =
+			header && header.getAttribute('tabindex') === '0'
+				? header
+				: header?.querySelector<HTMLButtonElement>('[data-card-toggle]:not(:disabled)');
+		if (!target) return false;
+
+		target.focus();
+		return document.activeElement === target;
+	}, []);
+
+	// Register card with controller
+	useEffect(() => {
+		controller.registerCard(
+			id,
+			isExpanded,
+			hasContentLoaded,
+			toggleFn,
+			expandFn,
+			collapseFn,
+			highlightCard,
+			{
+				validation: validationRef.current,
+				element: cardRef.current ?? undefined,
+				disabled,
+				focusFn: focusHeader,
+				groupId,
+				tags: tagsRef.current,
+				parentId,
+				// selectTab updates the registered tab in place
+				activeTab: activeTabRef.current,
+				selectTabFn,
+			}
+		);
+
+		return () => {
+			controller.unregisterCard(id);
+			if (highlightTimeoutRef.current) {
+				clearTimeout(highlightTimeoutRef.current);
+			}
+		};
+	}, [
+		controller,
+		id,
+		isExpanded,
+		hasContentLoaded,
+		toggleFn,
+		expandFn,
+		collapseFn,
+		highlightCard,
+		disabled,
+		focusHeader,
+		groupId,
+		tagsKey,
+		parentId,
+		selectTabFn,
+	]);
+
+	// Update controller when state changes
+	useEffect(() => {
+		controller.updateCardState(id, isExpanded, hasContentLoaded);
+	}, [controller, id, isExpanded, hasContentLoaded]);
+
+	// Collapse nested cards along with this one
+	const wasExpandedRef = useRef(isExpanded);
+	useEffect(() => {
+		if (cascadeCollapse && wasExpandedRef.current && !isExpanded) {
+			controller.collapseDescendants(id, false);
+		}
+		wasExpandedRef.current = isExpanded;
+	}, [controller, id, isExpanded, cascadeCollapse]);
+
+	// Aggregate dirty/invalid state of the Fields inside this card and its nested cards
+	useEffect(() => {
+		let childIds = controller.getChildren(id);
+		const update = () => {
+			childIds = controller.getChildren(id);
+			const next = getCardValidation(controller, id);
+			// Compare with the rendered state: a child re-registering drops out and back in
+			// within one commit, and must not produce a new object
+			setValidation(sameValidation(validationRef.current, next) ? validationRef.current : next);
+		};
+		update();
+		const unsubscribeFields = fieldController.subscribeGlobal((action) => {
+			if (FIELD_STATUS_ACTIONS.includes(action)) {
+				update();
+			}
+		});
+		const unsubscribeCards = controller.on('*', (event) => {
+			if (
+				(event.type === 'register' || event.type === 'validationChange') &&
+				controller.getParent(event.cardId) === id
+			) {
+				update();
+			} else if (event.type === 'unregister' && childIds.includes(event.cardId)) {
+				update();
+			}
+		});
+		return () => {
+			unsubscribeFields();
+			unsubscribeCards();
+		};
+	}, [controller, id]);
+
+	useEffect(() => {
+		controller.updateCardValidation(id, validation);
+	}, [controller, id, validation]);
+
+	// Persist expanded state
+	useEffect(() => {
+		if (persistMode) {
+			writePersistedCard(id, persistMode, { isExpanded, activeTab });
+		}
+	}, [id, persistMode, isExpanded, activeTab]);
+
+	// Handle loading state changes
+	useEffect(() => {
+		if (previousLoadingRef.current && !loading && !hasDataLoaded) {
+			setHasDataLoaded(true);
+			const eventData: CardEventData = {
+				cardId: id,
+				isExpanded,
+				timestamp: Date.now(),
+				source: 'user',
+			};
+			onDataLoaded?.(eventData);
+			onCardEvent?.('contentLoad', eventData);
+		}
+		previousLoadingRef.current = loading;
+	}, [loading, hasDataLoaded, onDataLoaded, onCardEvent, id, isExpanded]);
+
+	// Handle content loading for lazy loading
+	useEffect(() => {
+		if (lazyLoad && isExpanded && !hasContentLoaded) {
+			setHasContentLoaded(true);
+			const eventData: CardEventData = {
+				cardId: id,
+				isExpanded,
+				timestamp: Date.now(),
+				source: 'user',
+			};
+			onContentLoad?.(eventData);
+			onCardEvent?.('contentLoad', eventData);
+		}
+	}, [lazyLoad, isExpanded, hasContentLoaded, onContentLoad, onCardEvent, id]);
+
+	// User-initiated expand/collapse
+	const expand = useCallback(() => expandFn('user'), [expandFn]);
+	const collapse = useCallback(() => collapseFn('user'), [collapseFn]);
+
+	const toggleNow = useMemoizedCallback(() => {
+		if (!allowExpand || disabled) return;
+		toggleFn('user');
+	}, [allowExpand, disabled, toggleFn]);
+
+	const debouncedToggle = useDebounce(toggleNow, debounceToggle || 0);
+	const toggle = debounceToggle ? debouncedToggle : toggleNow;
+
+	// Lazy content rendered for the first time
+	const notifyContentLoad = useMemoizedCallback(() => {
+		const eventData: CardEventData = {
+			cardId: id,
+			isExpanded,
+			timestamp: Date.now(),
+			source: 'user',
+		};
+		onContentLoad?.(eventData);
+		onCardEvent?.('contentLoad', eventData);
+	}, [id, isExpanded, onContentLoad, onCardEvent]);
+
+	// Expand/collapse transition lifecycle, reported by the content element
+	const notifyAnimation = useMemoizedCallback(
+		(type: 'animationStart' | 'animationEnd') => {
+			const eventData: CardEventData = {
+				cardId: id,
+				isExpanded,
+				timestamp: Date.now(),
+				source: toggleSourceRef.current,
+			};
+			onCardEvent?.(type, eventData);
+			controller.notifyAnimation(id, type, isExpanded);
+		},
+		[controller, id, isExpanded, onCardEvent]
+	);
+
+	// Prop getters
+	const getCardProps = useCallback(
+		(props: React.HTMLAttributes<HTMLDivElement> = {}) => ({
+			...props,
+			ref: cardRef,
+			'data-card-id': id,
+		}),
+		[id]
+	);
+
+	const getHeaderProps = useCallback(
+		({ clickable = true, onClick, onKeyDown, ...props }: CardHeaderPropsOptions = {}) => {
+			const interactive = clickable && allowExpand;
+			return {
+				...props,
+				id: headerId,
+				role: interactive ? 'button' : undefined,
+				tabIndex: interactive && !disabled ? 0 : undefined,
+				'aria-expanded': allowExpand ? isExpanded : undefined,
+				'aria-controls': allowExpand ? contentId : undefined,
+				'aria-disabled': interactive && disabled ? true : undefined,
+				'data-card-header': '',
+				onClick: composeHandlers(onClick, () => {
+					if (interactive) toggle();
+				}),
+				onKeyDown: composeHandlers(onKeyDown, (e: React.KeyboardEvent<HTMLElement>) => {
+					// Controls inside the header (toolbar, inputs) keep their own arrow keys
+					const target = e.target as HTMLElement;
+					const fromHeader =
+						e.target === e.currentTarget || target.hasAttribute('data-card-toggle');
+					const direction = fromHeader ? NAVIGATION_KEYS[e.key] : undefined;
+					if (direction) {
+						if (controller.focusSiblingCard(id, direction)) {
+							e.preventDefault();
+						}
+						return;
+					}
+					if (interactive && !disabled && (e.key === 'Enter' || e.key === ' ')) {
+						e.preventDefault();
+						toggle();
+					}
+				}),
+			};
+		},
+		[controller, id, headerId, contentId, allowExpand, disabled, isExpanded, toggle]
+	);
+
+	const getToggleButtonProps = useCallback(
+		({ onClick, onKeyDown, ...props }: React.ButtonHTMLAttributes<HTMLButtonElement> = {}) => {
+			const label = isExpanded
+				? accessibility.collapseButtonLabel || 'Collapse card'
+				: accessibility.expandButtonLabel || 'Expand card';
+			return {
+				'aria-label': label,
+				title: label,
+				...props,
+				type: 'button' as const,
+				'aria-expanded': isExpanded,
+				'aria-controls': contentId,
+				disabled,
+				'data-card-toggle': '',
+				onClick: composeHandlers(onClick, (e: React.MouseEvent<HTMLButtonElement>) => {
+					// Keep the header's own click handler from toggling a second time
+					e.stopPropagation();
+					toggle();
+				}),
+				onKeyDown: composeHandlers(onKeyDown, (e: React.KeyboardEvent<HTMLButtonElement>) => {
+					if (e.key === 'Enter' || e.key === ' ') {
+						e.preventDefault();
+						e.stopPropagation();
+						toggle();
+					}
+				}),
+			};
+		},
+		[
+			contentId,
+			isExpanded,
+			disabled,
+			accessibility.collapseButtonLabel,
+			accessibility.expandButtonLabel,
+			toggle,
+		]
+	);
+
+	const getContentProps = useCallback(
+		(props: React.HTMLAttributes<HTMLElement> = {}) => ({
+			...props,
+			id: contentId,
+			role: 'region',
+			'aria-labelledby': headerId,
+			'aria-hidden': !isExpanded,
+		}),
+		[contentId, headerId, isExpanded]
+	);
+
+	return {
+		id,
+		// beforeprint expects the printable layout in the same tick, before effects run
+		isExpanded: isExpanded || isPrinting,
+		hasContentLoaded: hasContentLoaded || isPrinting,
+		isHighlighted,
+		isNearViewport: isNearViewport || isPrinting,
+		isPrinting,
+		validation,
+		cardRef,
+		expand,
+		collapse,
+		toggle,
+		highlight: highlightCard,
+		notifyContentLoad,
+		notifyAnimation,
+		getCardProps,
+		getHeaderProps,
+		getToggleButtonProps,
+		getContentProps,
+		activeTab,
+		selectTab,
+		registerTabs,
+	};
+};
@@ -0,0 +1,16 @@
+// This file is auto-generated. Do not edit manually.
+declare const styles: {
+	readonly grid: string;
+	readonly spacingCompact: string;
+	readonly spacingNormal: string;
+	readonly spacingRelaxed: string;
+	readonly item: string;
+	readonly dragging: string;
+	readonly dropTarget: string;
+	readonly moveHandle: string;
+	readonly visuallyHidden: string;
+	readonly module: string;
+	readonly css: string;
+	readonly map: string;
+};
+export default styles;
@@ -0,0 +1,347 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CardGridColumns, CardGridLayout, CardGridProps } from './CardGrid.types';
+import { localStorageLayoutStore } from './CardGridPersistence';
+import styles from './CardGrid.module.scss';
+
+// Matches $breakpoint-sm / $breakpoint-md, applied to the grid's own width
+const DEFAULT_COLUMNS: CardGridColumns = { 0: 1, 640: 2, 1024: 3 };
+// Stable default so the memoized layout is not rebuilt every render
+const EMPTY_SPANS: { [cardId: string]: number } = {};
+
+const MOVE_KEYS: { [key: string]: 'previous' | 'next' | 'first' | 'last' } = {
+	ArrowLeft: 'previous',
+	ArrowUp: 'previous',
+	ArrowRight: 'next',
+	ArrowDown: 'next',
+	Home: 'first',
+	End: 'last',
+};
+
+const GripIcon: React.FC = () => (
+	<svg width="16" height="16" fill="currentColor" viewBox="0 0 16 16" aria-hidden="true">
+		<circle cx="5" cy="4" r="1.25" />
+		<circle cx="11" cy="4" r="1.25" />
+		<circle cx="5" cy="8" r="1.25" />
+		<circle cx="11" cy="8" r="1.25" />
+		<circle cx="5" cy="12" r="1.25" />
+		<circle cx="11" cy="12" r="1.25" />
+	</svg>
+);
+
+const resolveColumns = (columns: CardGridColumns, width: number): number => {
+	if (typeof columns === 'number') return Math.max(1, Math.floor(columns));
+
+	let count = 1;
+	let matched = -1;
+	Object.keys(columns).forEach((key) => {
+		const minWidth = Number(key);
+		if (minWidth <= width && minWidth > matched) {
+			matched = minWidth;
+			count = columns[minWidth];
+		}
+	});
+	return Math.max(1, Math.floor(count));
+};
+
+// Orders card ids by the layout; cards missing from it follow in child order
+const resolveLayout = (
+	ids: string[],
+	layout: CardGridLayout | undefined,
+	spans: { [cardId: string]: number }
+): CardGridLayout => {
+	const available = new Set(ids);
+	const items: CardGridLayout = [];
+	(layout ?? []).forEach((item) => {
+		if (available.delete(item.id)) items.push(item);
+	});
+	ids.forEach((id) => {
+		if (available.has(id)) items.push({ id, span: spans[id] ?? 1 });
+	});
+	return items;
+};
+
+const getCardId = (child: React.ReactElement): string | undefined =>
+	typeof child.props?.id === 'string' ? child.props.id : undefined;
+
+// Main CardGrid Component
+export const CardGrid: React.FC<CardGridProps> = ({
+	id,
+	columns = DEFAULT_COLUMNS,
+	spans = EMPTY_SPANS,
+	layout,
+	onLayoutChange,
+	persistLayout,
+	reorderable = true,
+	spacing = 'normal',
+	moveHandleLabel = 'Move card',
+	className = '',
+	style,
+	children,
+}) => {
+	const isControlled = layout !== undefined;
+	const [internalLayout, setInternalLayout] = useState<CardGridLayout>();
+	const [width, setWidth] = useState(0);
+	const [draggedId, setDraggedId] = useState<string>();
+	const [dropTargetId, setDropTargetId] = useState<string>();
+	const [announcement, setAnnouncement] = useState('');
+	const gridRef = useRef<HTMLDivElement>(null);
+	const handlesRef = useRef(new Map<string, HTMLButtonElement>());
+	const focusAfterMoveRef = useRef<string>();
+	const userChangedRef = useRef(false);
+
+	const store = persistLayout === 'localStorage' ? localStorageLayoutStore : persistLayout;
+	const storeRef = useRef(store);
+	storeRef.current = store;
+	const hasStore = !!store;
+
+	// Cards keyed by their id; children without an id are rendered after them
+	const { cards, others } = useMemo(() => {
+		const cardMap = new Map<string, React.ReactElement>();
+		const rest: React.ReactNode[] = [];
+		React.Children.toArray(children).forEach((child) => {
+			const cardId = React.isValidElement(child) ? getCardId(child) : undefined;
+			if (cardId && !cardMap.has(cardId)) {
+				cardMap.set(cardId, child as React.ReactElement);
+			} else {
+				rest.push(child);
+			}
+		});
+		return { cards: cardMap, others: rest };
+	}, [children]);
+
+	const cardIds = useMemo(() => Array.from(cards.keys()), [cards]);
+	const currentLayout = useMemo(
+		() => resolveLayout(cardIds, layout ?? internalLayout, spans),
+		[cardIds, layout, internalLayout, spans]
+	);
+	const currentLayoutRef = useRef(currentLayout);
+	currentLayoutRef.current = currentLayout;
+
+	const columnCount = resolveColumns(columns, width);
+
+	// Track the grid's own width; web part zones are narrower than the viewport
+	useLayoutEffect(() => {
+		const element = gridRef.current;
+		if (!element) return;
+
+		const measure = () => setWidth(element.clientWidth);
+		measure();
+		if (typeof ResizeObserver === 'undefined') {
+			window.addEventListener('resize', measure);
+			return () => window.removeEventListener('resize', measure);
+		}
+		const observer = new ResizeObserver(measure);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, []);
+
+	// Restore the persisted layout unless the user has already rearranged the grid
+	useEffect(() => {
+		if (isControlled || !hasStore) return;
+
+		let cancelled = false;
+		storeRef.current
+			?.load(id)
+			.then((persisted) => {
+				if (!cancelled && persisted && !userChangedRef.current) {
+					setInternalLayout(persisted);
+				}
+			})
+			.catch((error) => console.warn(`Failed to load layout of card grid ${id}:`, error));
+		return () => {
+			cancelled = true;
+		};
+	}, [id, isControlled, hasStore]);
+
+	const commit = useCallback(
+		(next: CardGridLayout) => {
+			userChangedRef.current = true;
+			if (!isControlled) {
+				setInternalLayout(next);
+				storeRef.current
+					?.save(id, next)
+					.catch((error) => console.warn(`Failed to save layout of card grid ${id}:`, error));
+			}
+			onLayoutChange?.(next);
+		},
+		[id, isControlled, onLayoutChange]
+	);
+
+	const moveCard = useCallback(
+		(cardId: string, toIndex: number) => {
+			const items = currentLayoutRef.current;
+			const from = items.findIndex((item) => item.id === cardId);
+			const to = Math.max(0, Math.min(items.length - 1, toIndex));
+			if (from < 0 || from === to) return false;
+
+			const next = items.slice();
+			const [moved] = next.splice(from, 1);
+			next.splice(to, 0, moved);
+			commit(next);
+			return true;
+		},
+		[commit]
+	);
+
+	const announceMove = useCallback((cardId: string, index: number, count: number) => {
+		const header = gridRef.current
+			?.querySelector(`[data-card-id="${CSS.escape(cardId)}"] [data-card-header]`)
+			?.textContent?.trim();
+		setAnnouncement(`Moved ${header || cardId} to position ${index + 1} of ${count}`);
+	}, []);
+
+	// Reordering moves the DOM node, which drops focus; put it back on the moved handle
+	useEffect(() => {
+		const cardId = focusAfterMoveRef.current;
+		if (!cardId) return;
+		focusAfterMoveRef.current = undefined;
+		handlesRef.current.get(cardId)?.focus();
+	}, [currentLayout]);
+
+	const handleMoveKeyDown = useCallback(
+		(cardId: string, e: React.KeyboardEvent<HTMLButtonElement>) => {
+			const direction = MOVE_KEYS[e.key];
+			if (!direction) return;
+			e.preventDefault();
+
+			const items = currentLayoutRef.current;
+			const index = items.findIndex((item) => item.id === cardId);
+			const target =
+				direction === 'first'
+					? 0
+					: direction === 'last'
+					? items.length - 1
+					: index + (direction === 'next' ? 1 : -1);
+			if (moveCard(cardId, target)) {
+				focusAfterMoveRef.current = cardId;
+				announceMove(cardId, Math.max(0, Math.min(items.length - 1, target)), items.length);
+			}
+		},
+		[moveCard, announceMove]
+	);
+
+	const handleDragStart = useCallback((cardId: string, e: React.DragEvent<HTMLButtonElement>) => {
+		e.dataTransfer.effectAllowed = 'move';
+		// Firefox only starts a drag when data is set
+		e.dataTransfer.setData('text/plain', cardId);
+		const cell = e.currentTarget.closest('[data-grid-item]');
+		if (cell) {
+			e.dataTransfer.setDragImage(cell, 16, 16);
+		}
+		setDraggedId(cardId);
+	}, []);
+
+	const handleDragEnd = useCallback(() => {
+		setDraggedId(undefined);
+		setDropTargetId(undefined);
+	}, []);
+
+	const handleDragOver = useCallback(
+		(cardId: string, e: React.DragEvent<HTMLDivElement>) => {
+			if (!draggedId || draggedId === cardId) return;
+			e.preventDefault();
+			e.dataTransfer.dropEffect = 'move';
+			setDropTargetId(cardId);
+		},
+		[draggedId]
+	);
+
+	const handleDrop = useCallback(
+		(cardId: string, e: React.DragEvent<HTMLDivElement>) => {
+			e.preventDefault();
+			if (draggedId && draggedId !== cardId) {
+				const index = currentLayoutRef.current.findIndex((item) => item.id === cardId);
+				if (moveCard(draggedId, index)) {
+					announceMove(draggedId, index, currentLayoutRef.current.length);
+				}
+			}
+			setDraggedId(undefined);
+			setDropTargetId(undefined);
+		},
+		[draggedId, moveCard, announceMove]
+	);
+
+	const gridClasses = useMemo(
+		() =>
+			[
+				styles.grid,
+				styles[
+					`spacing${spacing.charAt(0).toUpperCase() + spacing.slice(1)}` as keyof typeof styles
+				],
+				className,
+			]
+				.filter(Boolean)
+				.join(' '),
+		[spacing, className]
+	);
+
+	const gridStyle = useMemo(
+		() => ({ '--card-grid-columns': columnCount, ...style } as React.CSSProperties),
+		[columnCount, style]
+	);
+
+	const instructionsId = `card-grid-instructions-${id}`;
+
+	return (
+		<div ref={gridRef} className={gridClasses} style={gridStyle} data-card-grid-id={id}>
+			{currentLayout.map((item) => {
+				const itemClasses = [
+					styles.item,
+					draggedId === item.id ? styles.dragging : '',
+					dropTargetId === item.id ? styles.dropTarget : '',
+				]
+					.filter(Boolean)
+					.join(' ');
+
+				return (
+					<div
+						key={item.id}
+						className={itemClasses}
+						style={{ gridColumn: `span ${Math.min(Math.max(1, item.span), columnCount)}` }}
+						data-grid-item={item.id}
+						onDragOver={reorderable ? (e) => handleDragOver(item.id, e) : undefined}
+						onDrop={reorderable ? (e) => handleDrop(item.id, e) : undefined}
+					>
+						{reorderable && currentLayout.length > 1 && (
+							<button
+								type="button"
+								ref={(element) => {
+									if (element) {
+										handlesRef.current.set(item.id, element);
+									} else {
+										handlesRef.current.delete(item.id);
+									}
+								}}
+								className={styles.moveHandle}
+								draggable
+								aria-label={moveHandleLabel}
+								aria-describedby={instructionsId}
+								title={moveHandleLabel}
+								onDragStart={(e) => handleDragStart(item.id, e)}
+								onDragEnd={handleDragEnd}
+								onKeyDown={(e) => handleMoveKeyDown(item.id, e)}
+							>
+								<GripIcon />
+							</button>
+						)}
+						{cards.get(item.id)}
+					</div>
+				);
+			})}
+			{others}
+
+			{reorderable && (
+				<>
+					<span id={instructionsId} className={styles.visuallyHidden}>
+						Drag, or use the arrow keys, Home and End to move the card.
+					</span>
+					<span className={styles.visuallyHidden} role="status" aria-live="polite">
+						{announcement}
+					</span>
+				</>
+			)}
+		</div>
+	);
+};
+
+CardGrid.displayName = 'CardGrid';
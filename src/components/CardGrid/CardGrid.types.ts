@@ -0,0 +1,60 @@
+import { ReactNode, CSSProperties } from 'react';
+
+export type CardGridSpacing = 'compact' | 'normal' | 'relaxed';
+
+/** Fixed column count, or column counts keyed by minimum container width in pixels */
+export type CardGridColumns = number | { [minWidth: number]: number };
+
+export interface CardGridLayoutItem {
+	/** Card id (`CardProps.id`) */
+	id: string;
+	/** Number of columns the card spans; clamped to the current column count */
+	span: number;
+}
+
+/** Cards in display order */
+export type CardGridLayout = CardGridLayoutItem[];
+
+/** Loads and saves user layouts, keyed by the grid id */
+export interface CardGridLayoutStore {
+	load(gridId: string): Promise<CardGridLayout | undefined>;
+	save(gridId: string, layout: CardGridLayout): Promise<void>;
+}
+
+export interface CardGridProps {
+	/** Unique identifier for the grid (also the key of the persisted layout) */
+	id: string;
+
+	/** Column count; defaults to 1, 2 and 3 columns from 0, 640 and 1024px container width */
+	columns?: CardGridColumns;
+
+	/** Column span per card id for cards that are not in the layout yet (default 1) */
+	spans?: { [cardId: string]: number };
+
+	/** Card order and spans (controlled) */
+	layout?: CardGridLayout;
+
+	/** Callback when the user reorders cards */
+	onLayoutChange?: (layout: CardGridLayout) => void;
+
+	/** Restore and save the user's layout (uncontrolled grids only) */
+	persistLayout?: 'localStorage' | CardGridLayoutStore;
+
+	/** Allow drag-and-drop and keyboard reordering (default true) */
+	reorderable?: boolean;
+
+	/** Gap between cards */
+	spacing?: CardGridSpacing;
+
+	/** Accessible label of the move handle shown on each card */
+	moveHandleLabel?: string;
+
+	/** Custom CSS class */
+	className?: string;
+
+	/** Custom styles */
+	style?: CSSProperties;
+
+	/** Card children; each card's `id` prop is its layout key */
+	children: ReactNode;
+}
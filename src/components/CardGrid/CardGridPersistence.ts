@@ -0,0 +1,103 @@
+import type { SPFI } from '@pnp/sp';
+import '@pnp/sp/webs';
+import '@pnp/sp/lists';
+import '@pnp/sp/items';
+import { getSp } from '../context/pnpjs-config';
+import { CardGridLayout, CardGridLayoutStore } from './CardGrid.types';
+
+// Storage keys are namespaced per page so the same grid id can be reused on other pages
+const STORAGE_PREFIX = 'spfx-card-grid';
+
+function getPageKey(): string {
+	try {
+		return window.location.pathname.toLowerCase();
+	} catch {
+		return '';
+	}
+}
+
+export function isCardGridLayout(value: unknown): value is CardGridLayout {
+	return (
+		Array.isArray(value) &&
+		value.every(
+			(item) => typeof item?.id === 'string' && typeof item?.span === 'number' && item.span > 0
+		)
+	);
+}
+
+function parseLayouts(raw: unknown): { [gridId: string]: CardGridLayout } {
+	if (typeof raw !== 'string' || !raw) return {};
+	try {
+		const parsed = JSON.parse(raw);
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+export const localStorageLayoutStore: CardGridLayoutStore = {
+	async load(gridId) {
+		try {
+			const raw = window.localStorage.getItem(`${STORAGE_PREFIX}:${getPageKey()}:${gridId}`);
+			const parsed = raw ? JSON.parse(raw) : undefined;
+			return isCardGridLayout(parsed) ? parsed : undefined;
+		} catch {
+			// Storage can be blocked (privacy mode, sandboxed iframes)
+			return undefined;
+		}
+	},
+	async save(gridId, layout) {
+		try {
+			window.localStorage.setItem(
+				`${STORAGE_PREFIX}:${getPageKey()}:${gridId}`,
+				JSON.stringify(layout)
+			);
+		} catch {
+			/* ignore quota errors */
+		}
+	},
+};
+
+export interface ListItemLayoutStoreOptions {
+	/** Title of the list holding the layouts */
+	listTitle: string;
+
+	/** Item holding the layouts, e.g. one item per user */
+	itemId: number;
+
+	/** Multi-line plain text field storing the layouts as JSON, keyed by grid id */
+	fieldName?: string;
+
+	/** PnPjs instance; defaults to the one configured through Context.setContext */
+	sp?: SPFI;
+}
+
+// Stores layouts of several grids in one list item field
+export function createListItemLayoutStore(
+	options: ListItemLayoutStoreOptions
+): CardGridLayoutStore {
+	const { listTitle, itemId, fieldName = 'CardGridLayout' } = options;
+	const getItem = () =>
+		(options.sp ?? getSp()).web.lists.getByTitle(listTitle).items.getById(itemId);
+	const readLayouts = async () => parseLayouts((await getItem().select(fieldName)())[fieldName]);
+
+	// Saves read-modify-write the field, so run them one at a time
+	let queue: Promise<void> = Promise.resolve();
+
+	return {
+		async load(gridId) {
+			const layout = (await readLayouts())[gridId];
+			return isCardGridLayout(layout) ? layout : undefined;
+		},
+		save(gridId, layout) {
+			const run = async () => {
+				const layouts = await readLayouts();
+				layouts[gridId] = layout;
+				await getItem().update({ [fieldName]: JSON.stringify(layouts) });
+			};
+			const result = queue.then(run);
+			queue = result.catch(() => undefined);
+			return result;
+		},
+	};
+}
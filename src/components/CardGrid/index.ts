@@ -0,0 +1,19 @@
+export { CardGrid } from './CardGrid';
+
+// Layout persistence
+export {
+	createListItemLayoutStore,
+	isCardGridLayout,
+	localStorageLayoutStore,
+} from './CardGridPersistence';
+export type { ListItemLayoutStoreOptions } from './CardGridPersistence';
+
+// Types
+export type {
+	CardGridProps,
+	CardGridColumns,
+	CardGridLayout,
+	CardGridLayoutItem,
+	CardGridLayoutStore,
+	CardGridSpacing,
+} from './CardGrid.types';
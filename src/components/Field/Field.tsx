@@ -1,7 +1,10 @@
 import React, { useEffect, useRef, useMemo, useCallback, createContext, useContext } from 'react';
 import { useController } from 'react-hook-form';
-import { FieldProps, FieldContextType, ValidationState } from './Field.types';
+import { FieldProps, FieldContextType, FieldStatus, ValidationState } from './Field.types';
 import { fieldController } from './FieldController';
+import { useAccordionItemContext } from '../Accordion/AccordionContext';
+import { CardContext } from '../Card/CardContext';
+import { useCardControllerInstance } from '../Card/CardControllerProvider';
 import styles from './Field.module.scss';
 
 // Field Context
@@ -23,9 +26,9 @@ export const Field: React.FC<FieldProps> = ({
 	rules,
 	layout = 'horizontal',
 	disabled = false,
-	cardId,
-	accordionId,
-	accordionItemId,
+	cardId: cardIdProp,
+	accordionId: accordionIdProp,
+	accordionItemId: accordionItemIdProp,
 	className = '',
 	style,
 	onValidationChange,
@@ -37,6 +40,14 @@ export const Field: React.FC<FieldProps> = ({
 	const fieldRef = useRef<HTMLDivElement>(null);
 	const fieldId = id || name;
 
+	// Fall back to the enclosing Card and AccordionItem for hierarchy ids
+	const card = useContext(CardContext);
+	const cardId = cardIdProp ?? card?.id;
+	const cardScope = useCardControllerInstance();
+	const accordionItem = useAccordionItemContext();
+	const accordionId = accordionIdProp ?? accordionItem?.accordionId;
+	const accordionItemId = accordionItemIdProp ?? accordionItem?.accordionItemId;
+
 	// React Hook Form integration
 	const {
 		field,
@@ -59,6 +70,15 @@ export const Field: React.FC<FieldProps> = ({
 		[invalid, error, isDirty, isTouched]
 	);
 
+	// Status reported to the field controller (aggregated per card)
+	const errorCount = error ? (error.types ? Object.keys(error.types).length : 1) : 0;
+	const status: FieldStatus = useMemo(
+		() => ({ isValid: !invalid, isDirty, errorCount }),
+		[invalid, isDirty, errorCount]
+	);
+	const statusRef = useRef(status);
+	statusRef.current = status;
+
 	// Focus function for navigation controller
 	const focusField = useCallback(() => {
 		if (fieldRef.current) {
@@ -109,12 +129,18 @@ export const Field: React.FC<FieldProps> = ({
 				accordionItemId,
 				fieldName: name,
 			},
+			status: statusRef.current,
+			cardScope,
 		});
 
 		return () => {
 			fieldController.unregisterField(fieldId);
 		};
-	}, [fieldId, name, cardId, accordionId, accordionItemId, focusField, scrollToField]);
+	}, [fieldId, name, cardId, cardScope, accordionId, accordionItemId, focusField, scrollToField]);
+
+	useEffect(() => {
+		fieldController.updateFieldStatus(fieldId, status);
+	}, [fieldId, status]);
 
 	// Notify validation changes
 	useEffect(() => {
@@ -40,7 +40,7 @@ export interface FieldProps {
 	/** Whether field is disabled */
 	disabled?: boolean;
 
-	/** Component hierarchy for navigation */
+	/** Component hierarchy for navigation (defaults to the enclosing Card / AccordionItem) */
 	cardId?: string;
 	accordionId?: string;
 	accordionItemId?: string;
@@ -119,9 +119,26 @@ export interface FieldHierarchy {
 	fieldName: string;
 }
 
+export interface FieldStatus {
+	isValid: boolean;
+	isDirty: boolean;
+	errorCount: number;
+}
+
+// Aggregated status of a group of fields (e.g. all fields in a card)
+export interface FieldStatusSummary {
+	fieldCount: number;
+	invalidCount: number;
+	dirtyCount: number;
+	errorCount: number;
+}
+
 export interface FieldRegistration {
 	element?: HTMLElement;
 	focusFn: () => boolean; // Changed from void to boolean
 	scrollFn: () => boolean; // Changed from void to boolean
 	hierarchy: FieldHierarchy;
+	status?: FieldStatus;
+	/** Card controller of the enclosing scope; keeps same-id cards in separate providers apart */
+	cardScope?: object;
 }
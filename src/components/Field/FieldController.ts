@@ -1,5 +1,5 @@
 import React from 'react';
-import { FieldRegistration, FieldHierarchy } from './Field.types';
+import { FieldRegistration, FieldHierarchy, FieldStatus, FieldStatusSummary } from './Field.types';
 
 interface FieldControllerSubscription {
 	fieldId: string;
@@ -33,6 +33,16 @@ class FieldController {
 		this.notifyGlobalSubscribers('unregister', id);
 	}
 
+	// Validation status reported by each Field
+	updateFieldStatus(id: string, status: FieldStatus): void {
+		const field = this.fields.get(id);
+		if (!field) return;
+
+		field.status = status;
+		this.notifySubscribers(id, 'statusChange', status);
+		this.notifyGlobalSubscribers('statusChange', id, { ...status, cardId: field.hierarchy.cardId });
+	}
+
 	// Subscription methods for class components
 	subscribe(fieldId: string, callback: (action: string, data?: any) => void): () => void {
 		if (!this.subscriptions.has(fieldId)) {
@@ -132,6 +142,34 @@ class FieldController {
 			.map(([id, _]) => id);
 	}
 
+	getFieldStatus(fieldId: string): FieldStatus | null {
+		const field = this.fields.get(fieldId);
+		return field && field.status ? field.status : null;
+	}
+
+	/** Summary of the card's fields; pass the card's controller to ignore same-id cards in other scopes */
+	getFieldStatusByCard(cardId: string, cardScope?: object): FieldStatusSummary {
+		const summary: FieldStatusSummary = {
+			fieldCount: 0,
+			invalidCount: 0,
+			dirtyCount: 0,
+			errorCount: 0,
+		};
+
+		this.fields.forEach((field) => {
+			if (field.hierarchy.cardId !== cardId) return;
+			if (cardScope && field.cardScope !== cardScope) return;
+			summary.fieldCount++;
+			if (field.status) {
+				if (!field.status.isValid) summary.invalidCount++;
+				if (field.status.isDirty) summary.dirtyCount++;
+				summary.errorCount += field.status.errorCount;
+			}
+		});
+
+		return summary;
+	}
+
 	getFieldsByAccordion(accordionId: string): string[] {
 		return Array.from(this.fields.entries())
 			.filter(([_, field]) => field.hierarchy.accordionId === accordionId)
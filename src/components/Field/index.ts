@@ -25,6 +25,8 @@ export type {
 	ValidationState,
 	FieldHierarchy,
 	FieldRegistration,
+	FieldStatus,
+	FieldStatusSummary,
 } from './Field.types';
 
 // Import WithFieldControllerProps from the controller file
@@ -41,6 +43,8 @@ export const useFieldController = () => {
 			getAllFields: () => fieldController.getAllFields(),
 			getFieldHierarchy: (fieldId: string) => fieldController.getFieldHierarchy(fieldId),
 			getFieldsByCard: (cardId: string) => fieldController.getFieldsByCard(cardId),
+			getFieldStatus: (fieldId: string) => fieldController.getFieldStatus(fieldId),
+			getFieldStatusByCard: (cardId: string) => fieldController.getFieldStatusByCard(cardId),
 			getFieldsByAccordion: (accordionId: string) =>
 				fieldController.getFieldsByAccordion(accordionId),
 			getFieldsByAccordionItem: (accordionItemId: string) =>
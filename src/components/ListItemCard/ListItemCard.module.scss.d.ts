@@ -0,0 +1,11 @@
+// This file is auto-generated. Do not edit manually.
+declare const styles: {
+	readonly fields: string;
+	readonly field: string;
+	readonly label: string;
+	readonly value: string;
+	readonly module: string;
+	readonly css: string;
+	readonly map: string;
+};
+export default styles;
@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { SPFI } from '@pnp/sp';
+import '@pnp/sp/webs';
+import '@pnp/sp/lists';
+import '@pnp/sp/items';
+import { Card } from '../Card/Card';
+import { Content } from '../Card/components/Content';
+import { Header } from '../Card/components/Header';
+import { ToolbarAction } from '../Card/Card.types';
+import { useCardControllerInstance } from '../Card/CardControllerProvider';
+import { Context } from '../context/pnpjs-config';
+import {
+	ListItemCardAction,
+	ListItemCardField,
+	ListItemCardItem,
+	ListItemCardProps,
+} from './ListItemCard.types';
+import styles from './ListItemCard.module.scss';
+
+const DEFAULT_ACTIONS: ListItemCardAction[] = ['edit', 'open', 'refresh'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Content `load` result, cached by the controller per card id
+interface ListItemCardData {
+	listId: string;
+	item: ListItemCardItem;
+}
+
+const toField = (field: string | ListItemCardField): ListItemCardField =>
+	typeof field === 'string' ? { name: field } : field;
+
+// getList() wants a server-relative URL; view and form pages are trimmed off
+const toServerRelativeListUrl = (listUrl: string, webRelativeUrl: string): string => {
+	let path = listUrl;
+	if (/^https?:\/\//i.test(path)) {
+		try {
+			path = decodeURI(new URL(path).pathname);
+		} catch {
+			/* use as given */
+		}
+	} else if (!path.startsWith('/')) {
+		path = `${webRelativeUrl.replace(/\/$/, '')}/${path}`;
+	}
+	return path.replace(/(\/Forms)?\/[^/]+\.aspx$/i, '').replace(/\/$/, '');
+};
+
+const getListSlug = (listUrl: string): string =>
+	(
+		listUrl
+			.replace(/(\/Forms)?\/[^/]+\.aspx$/i, '')
+			.split('/')
+			.filter(Boolean)
+			.pop() ?? 'list'
+	)
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-');
+
+const formatValue = (value: unknown, lookupField?: string): React.ReactNode => {
+	if (value === null || value === undefined || value === '') return '—';
+	if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+	if (Array.isArray(value)) {
+		return value.map((entry) => String(formatValue(entry, lookupField))).join(', ');
+	}
+	if (typeof value === 'object') {
+		const record = value as { [key: string]: any };
+		// Hyperlink fields
+		if (typeof record.Url === 'string') {
+			return (
+				<a href={record.Url} target="_blank" rel="noopener noreferrer">
+					{record.Description || record.Url}
+				</a>
+			);
+		}
+		// Lookup, person and managed metadata fields
+		return String(record[lookupField ?? 'Title'] ?? record.Title ?? record.Label ?? '—');
+	}
+	if (typeof value === 'string' && ISO_DATE.test(value)) {
+		return new Date(value).toLocaleString();
+	}
+	return String(value);
+};
+
+function reportRefreshError(cardId: string, error: unknown): void {
+	try {
+		if (Context.isReady()) {
+			Context.getContext().logger.warn('List item refresh check failed', { cardId, error }, 'Card');
+		}
+	} catch {
+		/* logging must never break the card */
+	}
+}
+
+// Card showing the fields of one list item, kept current by polling its Modified date
+export const ListItemCard: React.FC<ListItemCardProps> = ({
+	id,
+	listUrl,
+	itemId,
+	fields,
+	titleField = 'Title',
+	loadingTitle = 'Loading...',
+	itemActions = DEFAULT_ACTIONS,
+	openIn = 'newTab',
+	refreshInterval = 30000,
+	sp,
+	onItemLoaded,
+	toolbarActions = [],
+	...cardProps
+}) => {
+	const cardId = id ?? `${getListSlug(listUrl)}-${itemId}`;
+	const controller = useCardControllerInstance();
+	const [data, setData] = useState(() => controller.getCachedContent<ListItemCardData>(cardId));
+	const dataRef = useRef(data);
+	dataRef.current = data;
+	const onItemLoadedRef = useRef(onItemLoaded);
+	onItemLoadedRef.current = onItemLoaded;
+	// The first load may come from the PnPjs cache; refreshes must not
+	const hasLoadedRef = useRef(!!data);
+	const mountedRef = useRef(true);
+
+	useEffect(() => {
+		mountedRef.current = true;
+		return () => {
+			mountedRef.current = false;
+		};
+	}, []);
+
+	const fieldConfigs = useMemo(() => fields.map(toField), [fields]);
+	const fieldsKey = fieldConfigs
+		.map((field) => [field.name, ...(field.lookupFields ?? [])].join('/'))
+		.join('|');
+
+	const getList = useCallback(
+		(fresh: boolean) => {
+			const context = Context.getContext();
+			const instance: SPFI = sp ?? (fresh ? context.spNoCache : context.sp);
+			return instance.web.getList(toServerRelativeListUrl(listUrl, context.webRelativeUrl));
+		},
+		[sp, listUrl]
+	);
+
+	const loadItem = useCallback(async (): Promise<ListItemCardData> => {
+		const select = new Set(['Id', 'Modified', titleField]);
+		const expand = new Set<string>();
+		fieldConfigs.forEach((field) => {
+			if (field.lookupFields?.length) {
+				field.lookupFields.forEach((lookupField) => select.add(`${field.name}/${lookupField}`));
+				expand.add(field.name);
+			} else {
+				select.add(field.name);
+			}
+		});
+
+		const list = getList(hasLoadedRef.current);
+		let query = list.items.getById(itemId).select(...Array.from(select));
+		if (expand.size > 0) {
+			query = query.expand(...Array.from(expand));
+		}
+		const [listInfo, item] = await Promise.all([list.select('Id')(), query()]);
+		hasLoadedRef.current = true;
+
+		const next: ListItemCardData = { listId: listInfo.Id, item };
+		if (mountedRef.current) {
+			setData(next);
+			onItemLoadedRef.current?.(item);
+		}
+		return next;
+		// fieldsKey stands in for the field configs, which are often passed inline
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [getList, itemId, titleField, fieldsKey]);
+
+	// Reload when the item or its field configuration changes
+	const loadKey = `${listUrl}|${itemId}|${titleField}|${fieldsKey}`;
+	const loadKeyRef = useRef(loadKey);
+	useEffect(() => {
+		if (loadKeyRef.current === loadKey) return;
+		loadKeyRef.current = loadKey;
+		controller.refreshCard(cardId);
+	}, [controller, cardId, loadKey]);
+
+	// Reload when the item's Modified date changes, e.g. after editing it in another tab
+	useEffect(() => {
+		if (!refreshInterval || refreshInterval <= 0) return;
+
+		let cancelled = false;
+		let checking = false;
+		const check = async () => {
+			const current = dataRef.current;
+			if (checking || !current || document.hidden) return;
+
+			checking = true;
+			try {
+				const { Modified } = await getList(true).items.getById(itemId).select('Modified')();
+				if (!cancelled && Modified !== dataRef.current?.item.Modified) {
+					await controller.refreshCard(cardId);
+				}
+			} catch (error) {
+				reportRefreshError(cardId, error);
+			} finally {
+				checking = false;
+			}
+		};
+		const handleVisibilityChange = () => {
+			if (!document.hidden) check();
+		};
+
+		const timer = setInterval(check, refreshInterval);
+		document.addEventListener('visibilitychange', handleVisibilityChange);
+		return () => {
+			cancelled = true;
+			clearInterval(timer);
+			document.removeEventListener('visibilitychange', handleVisibilityChange);
+		};
+	}, [controller, cardId, getList, itemId, refreshInterval]);
+
+	const openForm = useCallback(
+		(kind: 'edit' | 'open') => {
+			const current = dataRef.current;
+			if (!current) return;
+
+			const { links } = Context.getContext();
+			const source = openIn === 'sameTab' ? window.location.href : undefined;
+			const url =
+				kind === 'edit'
+					? links.listItem.modernEdit(current.listId, itemId, source)
+					: links.listItem.modernDisplay(current.listId, itemId, source);
+			if (openIn === 'sameTab') {
+				window.location.href = url;
+			} else {
+				window.open(url, '_blank', 'noopener');
+			}
+		},
+		[itemId, openIn]
+	);
+
+	const actions = useMemo((): ToolbarAction[] => {
+		const builtIn: { [action in ListItemCardAction]: ToolbarAction } = {
+			edit: {
+				id: 'list-item-edit',
+				label: 'Edit',
+				variant: 'primary',
+				disabled: !data,
+				onClick: () => openForm('edit'),
+			},
+			open: {
+				id: 'list-item-open',
+				label: 'Open',
+				disabled: !data,
+				onClick: () => openForm('open'),
+			},
+			refresh: {
+				id: 'list-item-refresh',
+				label: 'Refresh',
+				onClick: () => controller.refreshCard(cardId),
+			},
+		};
+		return [...itemActions.map((action) => builtIn[action]), ...toolbarActions];
+	}, [itemActions, toolbarActions, data, openForm, controller, cardId]);
+
+	return (
+		<Card {...cardProps} id={cardId} toolbarActions={actions}>
+			<Header>{data ? formatValue(data.item[titleField]) : loadingTitle}</Header>
+			<Content load={loadItem}>
+				{({ item }: ListItemCardData) => (
+					<dl className={styles.fields}>
+						{fieldConfigs.map((field) => (
+							<div key={field.name} className={styles.field}>
+								<dt className={styles.label}>{field.label ?? field.name}</dt>
+								<dd className={styles.value}>
+									{field.render
+										? field.render(item[field.name], item)
+										: formatValue(item[field.name], field.lookupFields?.[0])}
+								</dd>
+							</div>
+						))}
+					</dl>
+				)}
+			</Content>
+		</Card>
+	);
+};
+
+ListItemCard.displayName = 'ListItemCard';
@@ -0,0 +1,61 @@
+import { ReactNode } from 'react';
+import type { SPFI } from '@pnp/sp';
+import { CardProps } from '../Card/Card.types';
+
+/** List item as returned by PnPjs; lookup and person fields are objects */
+export interface ListItemCardItem {
+	Id: number;
+	Modified: string;
+	[field: string]: any;
+}
+
+export interface ListItemCardField {
+	/** Internal name of the field */
+	name: string;
+
+	/** Label shown next to the value; defaults to the internal name */
+	label?: string;
+
+	/** Sub-fields to select from a lookup or person field, e.g. ['Title', 'EMail'] */
+	lookupFields?: string[];
+
+	/** Custom rendering of the value */
+	render?: (value: any, item: ListItemCardItem) => ReactNode;
+}
+
+export type ListItemCardAction = 'edit' | 'open' | 'refresh';
+
+export interface ListItemCardProps extends Omit<CardProps, 'id' | 'children'> {
+	/** Card id; defaults to the list name and item id, e.g. "issues-42" */
+	id?: string;
+
+	/** List URL: absolute, server-relative or relative to the current web (e.g. "Lists/Issues") */
+	listUrl: string;
+
+	/** Id of the item to show */
+	itemId: number;
+
+	/** Fields shown in the content, by internal name or with a label and renderer */
+	fields: (string | ListItemCardField)[];
+
+	/** Field rendered in the header (default 'Title') */
+	titleField?: string;
+
+	/** Header text until the item has loaded */
+	loadingTitle?: string;
+
+	/** Built-in toolbar actions, placed before `toolbarActions` (default edit, open and refresh) */
+	itemActions?: ListItemCardAction[];
+
+	/** Where the edit and open forms are opened (default 'newTab') */
+	openIn?: 'newTab' | 'sameTab';
+
+	/** How often to check the item's Modified date in milliseconds; 0 disables it (default 30000) */
+	refreshInterval?: number;
+
+	/** PnPjs instance, e.g. for a list on another web; defaults to Context.getContext().sp */
+	sp?: SPFI;
+
+	/** Callback whenever the item has been (re)loaded */
+	onItemLoaded?: (item: ListItemCardItem) => void;
+}
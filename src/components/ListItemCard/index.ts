@@ -0,0 +1,9 @@
+export { ListItemCard } from './ListItemCard';
+
+// Types
+export type {
+	ListItemCardAction,
+	ListItemCardField,
+	ListItemCardItem,
+	ListItemCardProps,
+} from './ListItemCard.types';
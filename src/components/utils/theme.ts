@@ -1,5 +1,11 @@
 // utils/theme.ts
-import { ITheme, loadTheme } from '@fluentui/style-utilities';
+import type { ISPEventObserver } from '@microsoft/sp-core-library';
+import type {
+	IReadonlyTheme,
+	ThemeChangedEventArgs,
+	ThemeProvider,
+} from '@microsoft/sp-component-base';
+import { getTheme, ITheme, loadTheme } from '@fluentui/style-utilities';
 
 type ThemeListener = (t: ITheme) => void;
 
@@ -24,3 +30,28 @@ export class ThemeBus {
 		};
 	}
 }
+
+// Shared bus the components listen to
+export const themeBus = new ThemeBus();
+
+/**
+ * Keeps the bus on the page theme and reports the web part's section background variant,
+ * which belongs on its own cards (Card `themeVariant`) rather than in the page-wide bus.
+ * Returns a disconnect function.
+ */
+export function connectThemeProvider(
+	themeProvider: ThemeProvider,
+	observer: ISPEventObserver,
+	bus: ThemeBus = themeBus,
+	onThemeVariantChange?: (themeVariant: IReadonlyTheme | undefined) => void
+): () => void {
+	// SharePoint loads the page theme into Fluent; the provider only knows this section's variant
+	bus.set(getTheme());
+	onThemeVariantChange?.(themeProvider.tryGetTheme());
+
+	const handleThemeChanged = (args: ThemeChangedEventArgs) => {
+		onThemeVariantChange?.(args.theme);
+	};
+	themeProvider.themeChangedEvent.add(observer, handleThemeChanged);
+	return () => themeProvider.themeChangedEvent.remove(observer, handleThemeChanged);
+}